@@ -10,13 +10,13 @@ const cleaner = createLocalStorageCleaner({
     enableTimeBasedCleanup: true, // 启用基于时间的清理
     // timeCleanupThreshold: 10 / (24 * 60 * 60),
     cleanupOnInsert: true, // 插入时触发清理
-    unimportantKeys: ['recording', 'temp', 'cache'] // 不重要的keys（简单字符串匹配，智能插入自动处理）
+    unimportantKeys: ['*recording*', '*temp*', '*cache*'] // 不重要的keys（通配符匹配包含这些词的键，智能插入自动处理）
 });
 
 // const cleaner = createLocalStorageCleaner({
 //     maxStorageSize: 3 * 1024 * 1024, // 3MB - 较大的容量便于测试
 //     debug: true,
-//     unimportantKeys: ['preRecordStorage', 'preRecordStorageOld'] // 不重要的keys（简单字符串匹配，智能插入自动处理）
+//     unimportantKeys: ['preRecordStorage', 'preRecordStorageOld'] // 不重要的keys（精确匹配，智能插入自动处理）
 // });
 
 export default function BasicExample() {
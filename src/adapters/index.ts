@@ -1,2 +1,6 @@
+export { WebStorageAdapter } from './web-storage-adapter';
+export type { WebStorageName } from './web-storage-adapter';
 export { LocalStorageAdapter } from './localstorage-adapter';
-export { IndexedDBAdapter } from './indexeddb-adapter';
\ No newline at end of file
+export { SessionStorageAdapter } from './sessionstorage-adapter';
+export { IndexedDBAdapter } from './indexeddb-adapter';
+export { MemoryStorageAdapter } from './memory-adapter';
\ No newline at end of file
@@ -10,12 +10,37 @@ export class IndexedDBAdapter implements IStorageAdapter {
   private version: number;
   private db: IDBDatabase | null = null;
 
+  /**
+   * 适配器自身发起请求时置位（请求在同步调用内创建），
+   * 供 StorageCleaner 的 IDBObjectStore 代理跳过适配器的内部读写
+   */
+  private static internalRequestDepth = 0;
+
   constructor(dbName: string = 'StorageCleanerDB', storeName: string = 'keyValueStore', version: number = 1) {
     this.dbName = dbName;
     this.storeName = storeName;
     this.version = version;
   }
 
+  /**
+   * 当前是否处于适配器自身发起的请求中
+   */
+  static isInternalRequest(): boolean {
+    return IndexedDBAdapter.internalRequestDepth > 0;
+  }
+
+  /**
+   * 以内部请求的身份创建 IDBRequest
+   */
+  private internalRequest<T extends IDBRequest>(create: () => T): T {
+    IndexedDBAdapter.internalRequestDepth++;
+    try {
+      return create();
+    } finally {
+      IndexedDBAdapter.internalRequestDepth--;
+    }
+  }
+
   /**
    * 初始化数据库连接
    */
@@ -56,7 +81,7 @@ export class IndexedDBAdapter implements IStorageAdapter {
       const store = transaction.objectStore(this.storeName);
 
       return new Promise((resolve, reject) => {
-        const request = store.get(key);
+        const request = this.internalRequest(() => store.get(key));
 
         request.onsuccess = () => {
           const result = request.result;
@@ -83,7 +108,7 @@ export class IndexedDBAdapter implements IStorageAdapter {
       const store = transaction.objectStore(this.storeName);
 
       return new Promise((resolve, reject) => {
-        const request = store.put({ key, value, timestamp: Date.now() });
+        const request = this.internalRequest(() => store.put({ key, value, timestamp: Date.now() }));
 
         request.onsuccess = () => {
           resolve();
@@ -109,7 +134,7 @@ export class IndexedDBAdapter implements IStorageAdapter {
       const store = transaction.objectStore(this.storeName);
 
       return new Promise((resolve, reject) => {
-        const request = store.delete(key);
+        const request = this.internalRequest(() => store.delete(key));
 
         request.onsuccess = () => {
           resolve();
@@ -231,6 +256,20 @@ export class IndexedDBAdapter implements IStorageAdapter {
     return typeof window !== 'undefined' && !!window.indexedDB;
   }
 
+  /**
+   * 获取数据库名称
+   */
+  getDatabaseName(): string {
+    return this.dbName;
+  }
+
+  /**
+   * 获取对象仓库名称
+   */
+  getStoreName(): string {
+    return this.storeName;
+  }
+
   /**
    * 获取数据库信息
    */
@@ -262,6 +301,24 @@ export class IndexedDBAdapter implements IStorageAdapter {
     }
   }
 
+  /**
+   * 估算存储配额（字节），来自 navigator.storage.estimate()
+   * IndexedDB 与同源的其他存储共享该配额
+   */
+  async estimateQuota(): Promise<number | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    try {
+      const { quota } = await navigator.storage.estimate();
+      return quota ?? null;
+    } catch (error) {
+      console.warn('Failed to estimate IndexedDB quota:', error);
+      return null;
+    }
+  }
+
   /**
    * 关闭数据库连接
    */
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Utils } from '../utils';
+import { MemoryStorageAdapter } from './memory-adapter';
+
+describe('MemoryStorageAdapter', () => {
+  it('stores items and tracks their size in UTF-8 bytes', () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('greeting', '你好');
+    adapter.setItem('count', '1');
+
+    expect(adapter.getItem('greeting')).toBe('你好');
+    expect(adapter.getItem('missing')).toBeNull();
+    expect(adapter.getItemSize('greeting')).toBe(8 + 6);
+    expect(adapter.getStorageSize()).toBe(8 + 6 + 5 + 1);
+
+    adapter.setItem('greeting', 'hi');
+    adapter.removeItem('count');
+    expect(adapter.getAllKeys()).toEqual(['greeting']);
+    expect(adapter.getStorageSize()).toBe(8 + 2);
+  });
+
+  it('throws a QuotaExceededError beyond the simulated quota', () => {
+    const adapter = new MemoryStorageAdapter(10);
+    adapter.setItem('a', '12345');
+
+    let error: unknown;
+    try {
+      adapter.setItem('b', '12345');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(Utils.isQuotaExceededError(error)).toBe(true);
+    expect(adapter.getItem('b')).toBeNull();
+    expect(adapter.getStorageSize()).toBe(6);
+
+    // 覆盖写入只计算差值
+    adapter.setItem('a', '123456789');
+    expect(adapter.getStorageSize()).toBe(10);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { IStorageAdapter, QuotaExceededHandler } from '../interfaces';
+import { Utils } from '../utils';
+
+/**
+ * 内存存储适配器
+ * 不依赖 window，可在 Node 环境和单元测试中使用，并支持模拟存储配额
+ */
+export class MemoryStorageAdapter implements IStorageAdapter {
+  private store: Map<string, string> = new Map();
+  private quota: number;
+  private usedSize = 0;
+  private quotaExceededHandler: QuotaExceededHandler | null = null;
+
+  /**
+   * @param quota 模拟的存储配额（字节），默认与 localStorage 一致为5MB
+   */
+  constructor(quota: number = 5 * 1024 * 1024) {
+    this.quota = quota;
+  }
+
+  /**
+   * 获取存储项
+   */
+  getItem(key: string): string | null {
+    const value = this.store.get(key);
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * 设置存储项
+   * 超出模拟配额时抛出 QuotaExceededError，行为与浏览器存储一致
+   */
+  setItem(key: string, value: string): void {
+    try {
+      this.writeItem(key, value);
+    } catch (error) {
+      // 系统键（访问记录等元数据）不为此淘汰业务数据，由写入方自行缩减后重试
+      if (!this.quotaExceededHandler || Utils.isSystemKey(key)) {
+        throw error;
+      }
+
+      // 交给清理器按策略淘汰部分数据后重试
+      const result = this.quotaExceededHandler(key, value, () => this.writeItem(key, value));
+      if (!result.success) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 设置配额超限处理器
+   */
+  setQuotaExceededHandler(handler: QuotaExceededHandler | null): void {
+    this.quotaExceededHandler = handler;
+  }
+
+  /**
+   * 写入存储项，超出配额时抛出错误
+   */
+  private writeItem(key: string, value: string): void {
+    const newItemSize = this.calculateItemSize(key, value);
+    const oldItemSize = this.getItemSize(key);
+    const nextSize = this.usedSize - oldItemSize + newItemSize;
+
+    if (nextSize > this.quota) {
+      throw this.createQuotaExceededError(key);
+    }
+
+    this.store.set(key, value);
+    this.usedSize = nextSize;
+  }
+
+  /**
+   * 删除存储项
+   */
+  removeItem(key: string): void {
+    this.usedSize -= this.getItemSize(key);
+    this.store.delete(key);
+  }
+
+  /**
+   * 清空存储
+   */
+  clear(): void {
+    this.store.clear();
+    this.usedSize = 0;
+  }
+
+  /**
+   * 按索引获取键
+   */
+  key(index: number): string | null {
+    const keys = this.getAllKeys();
+    return index >= 0 && index < keys.length ? keys[index] : null;
+  }
+
+  /**
+   * 获取所有键
+   */
+  getAllKeys(): string[] {
+    return Array.from(this.store.keys());
+  }
+
+  /**
+   * 获取存储大小（字节）
+   */
+  getStorageSize(): number {
+    return this.usedSize;
+  }
+
+  /**
+   * 获取单个项的大小（字节）
+   */
+  getItemSize(key: string): number {
+    const value = this.store.get(key);
+    if (value === undefined) {
+      return 0;
+    }
+    return this.calculateItemSize(key, value);
+  }
+
+  /**
+   * 内存存储始终可用
+   */
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * 获取模拟配额（字节）
+   */
+  getQuota(): number {
+    return this.quota;
+  }
+
+  /**
+   * 估算存储配额（字节），即模拟配额
+   */
+  estimateQuota(): number {
+    return this.quota;
+  }
+
+  /**
+   * 调整模拟配额（字节），不会删除已有数据
+   */
+  setQuota(quota: number): void {
+    this.quota = quota;
+  }
+
+  /**
+   * 计算键值对占用的字节数
+   */
+  private calculateItemSize(key: string, value: string): number {
+    return Utils.getStringByteSize(key) + Utils.getStringByteSize(value);
+  }
+
+  /**
+   * 创建与浏览器一致的配额超限错误
+   */
+  private createQuotaExceededError(key: string): Error {
+    const message = `Failed to set "${key}": simulated quota of ${Utils.formatDataSize(this.quota)} exceeded`;
+
+    if (typeof DOMException !== 'undefined') {
+      return new DOMException(message, 'QuotaExceededError');
+    }
+
+    const error = new Error(message) as Error & { code: number };
+    error.name = 'QuotaExceededError';
+    error.code = 22;
+    return error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { WebStorageAdapter } from './web-storage-adapter';
+
+/**
+ * sessionStorage 适配器
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+  constructor() {
+    super('sessionStorage');
+  }
+}
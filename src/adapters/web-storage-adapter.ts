@@ -0,0 +1,275 @@
+import { IStorageAdapter, QuotaExceededHandler } from '../interfaces';
+import { Utils } from '../utils';
+
+export type WebStorageName = 'localStorage' | 'sessionStorage';
+
+/**
+ * Web Storage 适配器基类
+ * localStorage 与 sessionStorage 共用同一套实现
+ */
+export class WebStorageAdapter implements IStorageAdapter {
+  protected originalStorage: Storage;
+  protected storageName: WebStorageName;
+  private quotaExceededHandler: QuotaExceededHandler | null = null;
+  private static quotaCache: Partial<Record<WebStorageName, number>> = {};
+
+  constructor(storageName: WebStorageName) {
+    this.storageName = storageName;
+    this.originalStorage = window[storageName];
+  }
+
+  /**
+   * 获取存储项
+   */
+  getItem(key: string): string | null {
+    try {
+      return this.originalStorage.getItem(key);
+    } catch (error) {
+      console.warn(`Failed to get item "${key}" from ${this.storageName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 设置存储项
+   */
+  setItem(key: string, value: string): void {
+    try {
+      this.originalStorage.setItem(key, value);
+    } catch (error) {
+      // 配额超限时交给清理器按策略淘汰部分数据后重试，而不是清空整个存储
+      // 系统键（访问记录等元数据）不为此淘汰业务数据，由写入方自行缩减后重试
+      if (Utils.isQuotaExceededError(error) && this.quotaExceededHandler && !Utils.isSystemKey(key)) {
+        console.warn(`${this.storageName} quota exceeded when setting "${key}", attempting to evict and retry`);
+
+        const result = this.quotaExceededHandler(key, value, () => this.originalStorage.setItem(key, value));
+        if (result.success) {
+          return;
+        }
+
+        console.error(`Failed to set "${key}" even after evicting ${result.report.keys.length} keys`);
+        throw error;
+      }
+
+      console.warn(`Failed to set item "${key}" in ${this.storageName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 设置配额超限处理器
+   */
+  setQuotaExceededHandler(handler: QuotaExceededHandler | null): void {
+    this.quotaExceededHandler = handler;
+  }
+
+  /**
+   * 删除存储项
+   */
+  removeItem(key: string): void {
+    try {
+      this.originalStorage.removeItem(key);
+    } catch (error) {
+      console.warn(`Failed to remove item "${key}" from ${this.storageName}:`, error);
+    }
+  }
+
+  /**
+   * 获取所有键
+   */
+  getAllKeys(): string[] {
+    try {
+      const keys: string[] = [];
+      for (let i = 0; i < this.originalStorage.length; i++) {
+        const key = this.originalStorage.key(i);
+        if (key) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    } catch (error) {
+      console.warn(`Failed to get all keys from ${this.storageName}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取存储大小（字节）
+   */
+  getStorageSize(): number {
+    try {
+      let totalSize = 0;
+      for (let i = 0; i < this.originalStorage.length; i++) {
+        const key = this.originalStorage.key(i);
+        if (key) {
+          const value = this.originalStorage.getItem(key);
+          if (value) {
+            totalSize += Utils.getStringByteSize(key) + Utils.getStringByteSize(value);
+          }
+        }
+      }
+      return totalSize;
+    } catch (error) {
+      console.warn(`Failed to calculate ${this.storageName} size:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * 获取单个项的大小（字节）
+   */
+  getItemSize(key: string): number {
+    try {
+      const value = this.originalStorage.getItem(key);
+      if (value === null) {
+        return 0;
+      }
+      return Utils.getStringByteSize(key) + Utils.getStringByteSize(value);
+    } catch (error) {
+      console.warn(`Failed to get size of item "${key}":`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * 清空存储
+   */
+  clear(): void {
+    try {
+      this.originalStorage.clear();
+    } catch (error) {
+      console.warn(`Failed to clear ${this.storageName}:`, error);
+    }
+  }
+
+  /**
+   * 检查存储是否可用
+   */
+  isAvailable(): boolean {
+    try {
+      const testKey = `__test_${this.storageName}_availability__`;
+      this.originalStorage.setItem(testKey, 'test');
+      this.originalStorage.removeItem(testKey);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 获取存储的剩余容量（估算）
+   * 基于缓存的配额计算，不会写入测试数据；尚未探测过配额时返回0
+   */
+  getRemainingCapacity(): number {
+    const quota = this.estimateQuota();
+    return quota === null ? 0 : Math.max(0, quota - this.getStorageSize());
+  }
+
+  /**
+   * 估算存储配额（字节），只读取之前探测并缓存的结果，不会写入测试数据
+   * 从未探测过时返回null，需要时显式调用 probeQuota()
+   */
+  estimateQuota(): number | null {
+    const cached = WebStorageAdapter.quotaCache[this.storageName];
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const persisted = Number(this.originalStorage.getItem(Utils.generateStorageKey('cleaner', 'quota')));
+      if (persisted > 0) {
+        WebStorageAdapter.quotaCache[this.storageName] = persisted;
+        return persisted;
+      }
+    } catch (error) {
+      console.warn(`Failed to read ${this.storageName} quota:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * 探测配额：用单个测试键找出还能写入的最大字节数，加上已用空间即为配额
+   * 只写入测试键，不会删除已有数据；先倍增找到上界，再二分到1KB精度。结果缓存在内存并持久化到存储中
+   * 注意：探测期间存储被短暂写满，同源其他标签页此时的写入会配额超限并触发淘汰，
+   * 应在空闲时、持有跨标签页清理锁时调用（StorageCleaner 的 quotaProbe 选项即如此）
+   */
+  probeQuota(): number | null {
+    try {
+      const quota = this.measureQuota();
+      if (quota !== null) {
+        WebStorageAdapter.quotaCache[this.storageName] = quota;
+        this.originalStorage.setItem(Utils.generateStorageKey('cleaner', 'quota'), String(quota));
+      }
+      return quota;
+    } catch (error) {
+      console.warn(`Failed to probe ${this.storageName} quota:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 倍增再二分测量还能写入的最大字节数
+   */
+  private measureQuota(): number | null {
+    const probeKey = Utils.generateStorageKey('cleaner', 'quota_probe');
+    const chunkSize = 1024;
+    const maxProbeSize = 16 * 1024 * 1024; // 最多探测16MB
+
+    this.originalStorage.removeItem(probeKey);
+    const usedSize = this.getStorageSize() + Utils.getStringByteSize(probeKey);
+
+    const tryWrite = (size: number): boolean => {
+      try {
+        this.originalStorage.setItem(probeKey, 'x'.repeat(size));
+        return true;
+      } catch (error) {
+        if (Utils.isQuotaExceededError(error)) {
+          return false;
+        }
+        throw error;
+      }
+    };
+
+    try {
+      let low = 0;
+      let high = 64 * chunkSize;
+
+      while (tryWrite(high)) {
+        low = high;
+        if (high >= maxProbeSize) {
+          return usedSize + low;
+        }
+        high = Math.min(high * 2, maxProbeSize);
+      }
+
+      while (high - low > chunkSize) {
+        const mid = Math.floor((low + high) / 2);
+        if (tryWrite(mid)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+
+      return usedSize + low;
+    } finally {
+      this.originalStorage.removeItem(probeKey);
+    }
+  }
+
+  /**
+   * 获取原始存储对象
+   */
+  getOriginalStorage(): Storage {
+    return this.originalStorage;
+  }
+
+  /**
+   * 获取存储名称（对应 window 上的属性名）
+   */
+  getStorageName(): WebStorageName {
+    return this.storageName;
+  }
+
+}
\ No newline at end of file
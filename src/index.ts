@@ -2,14 +2,70 @@
 export {
   StorageCleaner,
   createLocalStorageCleaner,
-  createIndexedDBCleaner
+  createSessionStorageCleaner,
+  createIndexedDBCleaner,
+  createMemoryStorageCleaner
 } from './storage-cleaner';
+export { StorageBudgetManager } from './storage-budget-manager';
+
+// 适配器导出
+export {
+  WebStorageAdapter,
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  IndexedDBAdapter,
+  MemoryStorageAdapter
+} from './adapters';
+
+// 策略导出
+export {
+  LRUStrategy,
+  LFUStrategy,
+  SLRUStrategy,
+  GDSFStrategy,
+  CompositeStrategy
+} from './strategies';
+
+// 元数据存储导出
+export {
+  AdapterMetadataStore,
+  LocalStorageMetadataStore,
+  IndexedDBMetadataStore,
+  MemoryMetadataStore
+} from './metadata';
+
+// 工具导出
+export { MigrationRegistry } from './utils';
 
 // 接口导出
 export type {
   IStorageAdapter,
+  IMetadataStore,
+  IMetadataMigration,
   ICleanupStrategy,
   IStorageCleanerConfig,
   IAccessRecord,
-  IStorageStats
+  IStorageStats,
+  ISetItemOptions,
+  KeyPattern,
+  PriorityTier,
+  PriorityTierPatterns,
+  IInsertionRule,
+  INamespaceConfig,
+  INamespaceStats,
+  IPinOptions,
+  IQuotaRecoveryResult,
+  CleanupTrigger,
+  IEvictionHooks,
+  ICleanupCandidate,
+  CompositeStrategyEntry,
+  CompositeScorer,
+  EvictionScorer,
+  IScoringContext,
+  ICleanupReport,
+  IStorageBudgetConfig,
+  IStorageBudgetUsage,
+  IStorageBudgetReport,
+  IStorageCleanerEvents,
+  StorageCleanerEventListener
 } from './interfaces';
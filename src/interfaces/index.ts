@@ -1,3 +1,40 @@
+/**
+ * 键匹配规则
+ * - 字符串：精确匹配；包含 * 或 ? 时按通配符匹配，如 'cache:*'
+ * - RegExp：正则匹配
+ * - 函数：返回true表示匹配
+ */
+export type KeyPattern = string | RegExp | ((key: string) => boolean);
+
+/**
+ * 优先级层级，清理时按 disposable → low → normal 的顺序淘汰
+ * - critical: 关键数据，自动清理（容量清理、时间清理、配额恢复）永远不会删除，只能显式删除
+ * - normal: 普通数据（默认）
+ * - low: 不重要的数据，unimportantKeys 匹配的键属于这一层
+ * - disposable: 可随时丢弃的数据，最先被清理
+ */
+export type PriorityTier = 'critical' | 'normal' | 'low' | 'disposable';
+
+/**
+ * 各优先级层级的键匹配规则
+ */
+export type PriorityTierPatterns = Partial<Record<PriorityTier, KeyPattern[]>>;
+
+/**
+ * 插入拒绝规则，满足任一条件时拒绝写入
+ */
+export interface IInsertionRule {
+  /**
+   * 存储使用率超过该值（0-1）时拒绝写入
+   */
+  rejectAboveUsage?: number;
+
+  /**
+   * 单个数据超过该大小（字节）时拒绝写入
+   */
+  maxItemSize?: number;
+}
+
 /**
  * 存储适配器接口
  */
@@ -18,6 +55,105 @@ export interface IStorageAdapter extends Omit<Storage, 'length'> {
    */
   getItemSize(key: string): Promise<number> | number;
 
+  /**
+   * 设置配额超限处理器（可选）
+   * 写入触发配额超限时调用，由清理器按策略淘汰部分数据后重试写入
+   */
+  setQuotaExceededHandler?(handler: QuotaExceededHandler | null): void;
+
+  /**
+   * 估算存储配额（字节，可选），无法估算时返回null
+   */
+  estimateQuota?(): Promise<number | null> | number | null;
+
+}
+
+/**
+ * 元数据存储接口
+ * 保存访问记录等策略自身的状态，可以与被管理的存储分开，避免占用其配额
+ */
+export interface IMetadataStore {
+  /**
+   * 读取元数据
+   */
+  getItem(key: string): Promise<string | null> | string | null;
+
+  /**
+   * 写入元数据
+   */
+  setItem(key: string, value: string): Promise<void> | void;
+
+  /**
+   * 删除元数据
+   */
+  removeItem(key: string): Promise<void> | void;
+}
+
+/**
+ * 元数据迁移步骤
+ */
+export interface IMetadataMigration<T = any> {
+  /**
+   * 升级前的版本
+   */
+  from: number;
+
+  /**
+   * 升级后的版本
+   */
+  to: number;
+
+  /**
+   * 从 from 升级到 to
+   */
+  up(data: T): T;
+
+  /**
+   * 从 to 降级到 from（可选），不提供时无法回滚到该版本之前
+   */
+  down?(data: T): T;
+}
+
+/**
+ * 配额超限处理器
+ * @param key 写入失败的键
+ * @param value 写入失败的值
+ * @param retry 重新执行原始写入，失败时抛出错误
+ */
+export type QuotaExceededHandler = (
+  key: string,
+  value: string,
+  retry: () => void
+) => IQuotaRecoveryResult;
+
+/**
+ * 配额超限恢复结果
+ */
+export interface IQuotaRecoveryResult {
+  /**
+   * 写入失败的键
+   */
+  key: string;
+
+  /**
+   * 最终是否写入成功
+   */
+  success: boolean;
+
+  /**
+   * 按策略淘汰的尝试次数
+   */
+  attempts: number;
+
+  /**
+   * 是否执行了兜底清空
+   */
+  cleared: boolean;
+
+  /**
+   * 本次恢复的清理报告
+   */
+  report: ICleanupReport;
 }
 
 /**
@@ -42,17 +178,311 @@ export interface ICleanupStrategy {
     requiredSpace?: number
   ): string[];
 
+  /**
+   * 获取清理计划（可选）
+   * 与 getKeysToCleanup 选择逻辑一致，但额外给出每个键的大小、层级和原因，用于演练模式
+   */
+  getCleanupPlan?(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace?: number
+  ): ICleanupCandidate[];
+
   /**
    * 清理指定的键
+   * @param options.evicted 是否为按策略淘汰；主动删除和过期删除时为false
    */
-  cleanup(keys: string[]): void;
+  cleanup(keys: string[], options?: { evicted?: boolean }): void;
 
   /**
    * 获取策略名称
    */
   getName(): string;
+
+  /**
+   * 设置键的过期时间（可选）
+   * @param expiresAt 过期时间戳（毫秒），传null表示取消过期
+   */
+  setExpiry?(key: string, expiresAt: number | null): void;
+
+  /**
+   * 检查键是否已过期（可选），过期的键读取时按未命中处理
+   */
+  isExpired?(key: string): boolean;
+
+  /**
+   * 设置淘汰钩子（可选）
+   * 策略自行删除数据（如基于时间的清理）时应通过钩子通知清理器
+   */
+  setEvictionHooks?(hooks: IEvictionHooks | null): void;
+
+  /**
+   * 合并其他标签页持久化的访问记录（可选）
+   * 清理器在获得清理锁后、挑选淘汰键之前调用
+   */
+  syncAccessRecords?(): Promise<void>;
+
+  /**
+   * 释放策略占用的资源，如事件监听和广播通道（可选）
+   */
+  destroy?(): void;
+
+  /**
+   * 固定键（可选），固定的键不会被自动清理
+   */
+  pin?(key: string, options?: IPinOptions): void;
+
+  /**
+   * 取消固定键（可选）
+   */
+  unpin?(key: string): void;
+
+  /**
+   * 检查键是否被固定（可选）
+   */
+  isPinned?(key: string): boolean;
+
+  /**
+   * 获取所有被固定的键（可选）
+   */
+  getPinnedKeys?(): string[];
+}
+
+/**
+ * 固定键的选项
+ */
+export interface IPinOptions {
+  /**
+   * 是否随访问记录持久化，默认true
+   * 传false时只在当前页面生命周期内有效，适合固定正在编辑的草稿等临时数据
+   */
+  persist?: boolean;
+}
+
+/**
+ * 淘汰评分的上下文
+ */
+export interface IScoringContext {
+  /**
+   * 评分时刻
+   */
+  now: number;
+
+  /**
+   * 访问记录总数
+   */
+  recordCount: number;
+
+  /**
+   * 平均访问次数
+   */
+  averageAccessCount: number;
+}
+
+/**
+ * 淘汰评分函数，分数越高越先被清理
+ */
+export type EvictionScorer = (key: string, record: IAccessRecord, context: IScoringContext) => number;
+
+/**
+ * 组合策略中的评分函数
+ * 分数越高越先被清理，返回null或undefined表示该键不参与这一环节
+ */
+export type CompositeScorer = (key: string, context: { size: number; now: number }) => number | null | undefined;
+
+/**
+ * 组合策略的组成项：子策略或评分函数
+ */
+export type CompositeStrategyEntry =
+  | {
+    strategy: ICleanupStrategy;
+    /**
+     * 加权模式下的权重，默认1
+     */
+    weight?: number;
+  }
+  | {
+    scorer: CompositeScorer;
+    /**
+     * 名称，用作清理计划中的层级，默认 scorer-序号
+     */
+    name?: string;
+    /**
+     * 加权模式下的权重，默认1
+     */
+    weight?: number;
+  };
+
+/**
+ * 清理触发来源
+ * - manual: 手动调用清理
+ * - insert: 写入时容量超过阈值
+ * - quota: 写入触发配额超限
+ * - time: 基于时间的清理
+ * - budget: 全局存储预算超限
+ */
+export type CleanupTrigger = 'manual' | 'insert' | 'quota' | 'time' | 'budget';
+
+/**
+ * 淘汰钩子
+ */
+export interface IEvictionHooks {
+  /**
+   * 删除前调用，返回false表示保留该键
+   */
+  beforeEvict(key: string, trigger: CleanupTrigger): boolean;
+
+  /**
+   * 删除后调用
+   */
+  afterEvict(keys: string[], trigger: CleanupTrigger): void;
+
+  /**
+   * 演练模式下只生成计划、不删除时调用
+   */
+  planned?(candidates: ICleanupCandidate[], trigger: CleanupTrigger): void;
+
+  /**
+   * 在清理器的串行清理（跨标签页锁）内执行任务，如插入新键时触发的时间清理
+   */
+  runExclusive?(task: () => Promise<void> | void): void;
+}
+
+/**
+ * 清理候选项
+ */
+export interface ICleanupCandidate {
+  /**
+   * 存储键
+   */
+  key: string;
+
+  /**
+   * 数据大小（字节）
+   */
+  size: number;
+
+  /**
+   * 选中该键的策略层级
+   */
+  tier: string;
+
+  /**
+   * 选中原因
+   */
+  reason: string;
+
+  /**
+   * 最近访问时间（毫秒），没有访问记录时省略
+   * 与存储无关，跨存储合并候选项时用作统一的比较依据
+   */
+  lastAccess?: number;
+}
+
+/**
+ * 清理报告
+ * 所有清理入口（手动清理、写入时清理、配额超限恢复、基于时间的清理）统一返回该结构
+ */
+export interface ICleanupReport {
+  /**
+   * 清理触发来源
+   */
+  trigger: CleanupTrigger;
+
+  /**
+   * 是否为演练（未实际删除）
+   */
+  dryRun: boolean;
+
+  /**
+   * 被删除的键，演练模式下为计划删除的键
+   */
+  keys: string[];
+
+  /**
+   * 每个键的大小以及选中它的策略层级和原因
+   */
+  entries: ICleanupCandidate[];
+
+  /**
+   * 被 beforeEvict 否决、属于 critical 层或被固定而保留的键
+   */
+  vetoedKeys: string[];
+
+  /**
+   * 清理前的存储大小（字节）
+   */
+  sizeBefore: number;
+
+  /**
+   * 清理后的存储大小（字节）
+   */
+  sizeAfter: number;
+
+  /**
+   * 释放的字节数，由清理前后的存储大小计算；演练模式下为选中键大小之和
+   */
+  bytesFreed: number;
+
+  /**
+   * 开始时间
+   */
+  startedAt: number;
+
+  /**
+   * 耗时（毫秒）
+   */
+  duration: number;
+}
+
+/**
+ * 清理器生命周期事件
+ */
+export interface IStorageCleanerEvents {
+  /**
+   * 删除单个键之前触发，监听器返回false可以阻止删除该键
+   */
+  beforeEvict: {
+    key: string;
+    trigger: CleanupTrigger;
+  };
+
+  /**
+   * 一批键删除完成后触发
+   */
+  afterEvict: {
+    keys: string[];
+    trigger: CleanupTrigger;
+  };
+
+  /**
+   * 智能插入拒绝写入时触发
+   */
+  rejected: {
+    key: string;
+    size: number;
+    usageRatio: number;
+  };
+
+  /**
+   * 写入触发配额超限并完成恢复后触发
+   */
+  quotaExceeded: IQuotaRecoveryResult;
+
+  /**
+   * 演练模式下生成清理计划后触发（未实际删除）
+   */
+  cleanupPlanned: ICleanupReport;
 }
 
+/**
+ * 清理器事件监听器，beforeEvict 返回false表示否决
+ */
+export type StorageCleanerEventListener<K extends keyof IStorageCleanerEvents> = (
+  payload: IStorageCleanerEvents[K]
+) => boolean | void;
+
 /**
  * SDK配置接口
  */
@@ -95,9 +525,9 @@ export interface IStorageCleanerConfig {
   /**
    * 不重要的keys列表
    * 这些keys在空间不足时会被优先清理，且如果是大数据会被拒绝插入
-   * 支持简单的字符串匹配，如 'temp_data', 'cache_item' 等
+   * 支持精确字符串、通配符（如 'temp_*'）、正则和函数
    */
-  unimportantKeys?: string[];
+  unimportantKeys?: KeyPattern[];
 
   /**
    * 清理策略
@@ -110,9 +540,137 @@ export interface IStorageCleanerConfig {
   debug?: boolean;
 
   /**
-   * 排除的键（不会被清理）
+   * 排除的键（不会被清理），支持精确字符串、通配符、正则和函数
+   */
+  excludeKeys?: KeyPattern[];
+
+  /**
+   * 配额超限时按策略淘汰的最大尝试次数，每次需要释放的空间翻倍
+   */
+  quotaRecoveryAttempts?: number;
+
+  /**
+   * 演练模式：完整执行清理选择逻辑但不删除任何数据，只生成清理计划
+   * 配额超限恢复不受影响，仍会真实执行
+   */
+  dryRun?: boolean;
+
+  /**
+   * 按策略淘汰仍无法写入时，是否清空除排除键和系统键以外的全部数据（兜底，默认关闭）
+   */
+  clearOnQuotaExceeded?: boolean;
+
+  /**
+   * 是否开启跨标签页协作（默认开启，仅对 localStorage 和 IndexedDB 生效）
+   * 开启后访问记录在标签页之间合并，清理通过 Web Locks 保证同一时间只有一个标签页在淘汰数据
+   */
+  crossTabSync?: boolean;
+
+  /**
+   * 访问记录的存储位置，默认保存在被管理的存储中
+   * 例如 localStorage 清理器可以把访问记录放到 IndexedDBMetadataStore，不再占用 localStorage 的配额
    */
-  excludeKeys?: string[];
+  metadataStore?: IMetadataStore;
+
+  /**
+   * 持久化的完整访问记录数量上限，默认2000
+   */
+  maxRecords?: number;
+
+  /**
+   * 开启频率草图（Count-Min Sketch），以固定大小估算超出 maxRecords 的键的访问次数和最近访问日期
+   */
+  frequencySketch?: boolean | { width?: number; depth?: number };
+
+  /**
+   * 是否根据适配器估算的配额自动设置 maxStorageSize（默认关闭）
+   * IndexedDB 使用 navigator.storage.estimate()，localStorage 使用之前探测并缓存的结果
+   */
+  autoQuota?: boolean;
+
+  /**
+   * localStorage / sessionStorage 没有缓存的配额时是否探测（默认关闭）
+   * 探测会短暂写满存储，同源其他标签页此时的写入会配额超限；探测在跨标签页清理锁内进行，只在首次需要时执行一次
+   */
+  quotaProbe?: boolean;
+
+  /**
+   * 自动配额模式下 maxStorageSize 占配额的比例，默认 0.9
+   */
+  quotaRatio?: number;
+
+  /**
+   * 自动配额模式下重新估算配额的间隔（毫秒），默认10分钟
+   */
+  quotaRefreshInterval?: number;
+
+  /**
+   * 淘汰评分函数（默认LRU策略使用），分数越高越先被清理
+   * 同时决定淘汰顺序、getCleanupCandidates 的排序以及访问记录超出数量限制时保留哪些
+   */
+  scorer?: EvictionScorer;
+
+  /**
+   * 按键匹配规则划分优先级层级，一个键匹配多个层级时取更重要的层级
+   * 未匹配的键：命中 unimportantKeys 的属于 low，其余属于 normal
+   */
+  priorityTiers?: PriorityTierPatterns;
+
+  /**
+   * 各层级的插入拒绝规则（智能插入）
+   * 默认 low 和 disposable 在使用率超过 cleanupThreshold 时拒绝写入，critical 和 normal 不拒绝
+   */
+  insertionRules?: Partial<Record<PriorityTier, IInsertionRule>>;
+
+  /**
+   * 命名空间，按键前缀划分并各自拥有独立的配额
+   * 写入时先检查所属命名空间，再检查全局 maxStorageSize
+   */
+  namespaces?: INamespaceConfig[];
+}
+
+/**
+ * 命名空间配置
+ */
+export interface INamespaceConfig {
+  /**
+   * 命名空间名称，用于统计和手动清理
+   */
+  name: string;
+
+  /**
+   * 键前缀，键同时匹配多个命名空间时取最长的前缀
+   */
+  prefix: string;
+
+  /**
+   * 命名空间的最大存储大小（字节）
+   */
+  maxStorageSize: number;
+
+  /**
+   * 清理阈值，默认使用全局的 cleanupThreshold
+   */
+  cleanupThreshold?: number;
+
+  /**
+   * 命名空间内使用的清理策略，默认使用全局策略
+   * 使用 LRUStrategy 时建议设置相同的 keyPrefix，访问记录与其他命名空间分开保存
+   */
+  strategy?: ICleanupStrategy;
+}
+
+/**
+ * 命名空间统计信息
+ */
+export interface INamespaceStats {
+  name: string;
+  prefix: string;
+  totalSize: number;
+  itemCount: number;
+  maxSize: number;
+  usageRatio: number;
+  cleanupCount: number;
 }
 
 /**
@@ -133,6 +691,36 @@ export interface IAccessRecord {
    * 数据大小
    */
   size: number;
+
+  /**
+   * 过期时间戳（可选），到期后优先清理，读取时按未命中处理
+   */
+  expiresAt?: number;
+
+  /**
+   * 策略自定义的状态位（可选），如SLRU的分段归属，随访问记录一起持久化
+   */
+  flags?: number;
+
+  /**
+   * 策略自定义的排序基准（可选），如SLRU降级回试用段的时间、GDSF的价值基准，随访问记录一起持久化
+   */
+  rank?: number;
+}
+
+/**
+ * 写入选项
+ */
+export interface ISetItemOptions {
+  /**
+   * 存活时间（毫秒）
+   */
+  ttl?: number;
+
+  /**
+   * 过期时间戳（毫秒），同时指定时优先于ttl
+   */
+  expiresAt?: number;
 }
 
 /**
@@ -168,4 +756,110 @@ export interface IStorageStats {
    * 清理次数
    */
   cleanupCount: number;
+
+  /**
+   * 最近一次配额超限恢复的结果
+   */
+  lastQuotaRecovery?: IQuotaRecoveryResult;
+
+  /**
+   * 适配器估算的存储配额（字节），未估算或无法估算时为空
+   */
+  quota?: number;
+
+  /**
+   * 各命名空间的统计信息，按名称索引
+   */
+  namespaces?: Record<string, INamespaceStats>;
+}
+
+/**
+ * 全局存储预算配置
+ */
+export interface IStorageBudgetConfig {
+  /**
+   * 整个源的存储预算（字节），未设置时根据 navigator.storage.estimate() 的配额计算
+   */
+  maxTotalSize?: number;
+
+  /**
+   * 使用 estimate() 配额作为预算时取其中的比例，默认 0.8
+   */
+  quotaRatio?: number;
+
+  /**
+   * 清理阈值（0-1之间），总用量超过 预算 * 阈值 时开始淘汰，默认 1
+   */
+  cleanupThreshold?: number;
+
+  /**
+   * 是否使用 estimate() 返回的用量作为总用量，默认 false，按各成员的存储大小求和
+   * estimate() 还包含 Cache Storage 等无法由清理器淘汰的数据
+   */
+  useEstimatedUsage?: boolean;
+
+  /**
+   * 定时检查预算的间隔（毫秒），0表示不定时检查，默认 0
+   */
+  checkInterval?: number;
+
+  /**
+   * 调试模式
+   */
+  debug?: boolean;
+}
+
+/**
+ * 全局存储用量
+ */
+export interface IStorageBudgetUsage {
+  /**
+   * 预算（字节），无法确定时为 Infinity
+   */
+  budget: number;
+
+  /**
+   * 总用量（字节）
+   */
+  totalSize: number;
+
+  /**
+   * 各成员的存储大小（字节），按名称索引
+   */
+  members: Record<string, number>;
+
+  /**
+   * 总用量来源，estimate 表示来自 navigator.storage.estimate()
+   */
+  source: 'estimate' | 'members';
+}
+
+/**
+ * 全局预算淘汰报告
+ */
+export interface IStorageBudgetReport {
+  /**
+   * 是否为演练（未实际删除）
+   */
+  dryRun: boolean;
+
+  /**
+   * 淘汰前的用量
+   */
+  usage: IStorageBudgetUsage;
+
+  /**
+   * 需要释放的字节数，未超出预算时为0
+   */
+  requiredSpace: number;
+
+  /**
+   * 释放的字节数，演练模式下为选中键大小之和
+   */
+  bytesFreed: number;
+
+  /**
+   * 各成员的清理报告，按名称索引
+   */
+  reports: Record<string, ICleanupReport>;
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { IMetadataStore, IStorageAdapter } from '../interfaces';
+
+/**
+ * 基于存储适配器的元数据存储
+ * 元数据与业务数据可以保存在同一个存储中（默认行为），也可以交给另一个适配器
+ */
+export class AdapterMetadataStore implements IMetadataStore {
+  protected adapter: IStorageAdapter;
+
+  constructor(adapter: IStorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * 读取元数据
+   */
+  getItem(key: string): Promise<string | null> | string | null {
+    return this.adapter.getItem(key);
+  }
+
+  /**
+   * 写入元数据
+   */
+  setItem(key: string, value: string): Promise<void> | void {
+    return this.adapter.setItem(key, value);
+  }
+
+  /**
+   * 删除元数据
+   */
+  removeItem(key: string): Promise<void> | void {
+    return this.adapter.removeItem(key);
+  }
+}
\ No newline at end of file
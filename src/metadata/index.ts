@@ -0,0 +1,4 @@
+export { AdapterMetadataStore } from './adapter-metadata-store';
+export { LocalStorageMetadataStore } from './localstorage-metadata-store';
+export { IndexedDBMetadataStore } from './indexeddb-metadata-store';
+export { MemoryMetadataStore } from './memory-metadata-store';
\ No newline at end of file
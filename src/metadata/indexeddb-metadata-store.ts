@@ -0,0 +1,23 @@
+import { IndexedDBAdapter } from '../adapters';
+import { AdapterMetadataStore } from './adapter-metadata-store';
+
+/**
+ * IndexedDB 元数据存储
+ * 适合把 localStorage 清理器的访问记录移出 localStorage，不再占用它的5MB配额
+ */
+export class IndexedDBMetadataStore extends AdapterMetadataStore {
+  private indexedDBAdapter: IndexedDBAdapter;
+
+  constructor(dbName: string = 'StorageCleanerMetaDB', storeName: string = 'metadata') {
+    const adapter = new IndexedDBAdapter(dbName, storeName);
+    super(adapter);
+    this.indexedDBAdapter = adapter;
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  close(): void {
+    this.indexedDBAdapter.close();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { LocalStorageAdapter } from '../adapters';
+import { AdapterMetadataStore } from './adapter-metadata-store';
+
+/**
+ * localStorage 元数据存储
+ * 适合把 IndexedDB 或 sessionStorage 清理器的访问记录保存到 localStorage
+ */
+export class LocalStorageMetadataStore extends AdapterMetadataStore {
+  constructor() {
+    super(new LocalStorageAdapter());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { IMetadataStore } from '../interfaces';
+
+/**
+ * 内存元数据存储
+ * 访问记录不持久化，页面刷新后重新初始化，适合单元测试和临时页面
+ */
+export class MemoryMetadataStore implements IMetadataStore {
+  private store: Map<string, string> = new Map();
+
+  /**
+   * 读取元数据
+   */
+  getItem(key: string): string | null {
+    const value = this.store.get(key);
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * 写入元数据
+   */
+  setItem(key: string, value: string): void {
+    this.store.set(key, value);
+  }
+
+  /**
+   * 删除元数据
+   */
+  removeItem(key: string): void {
+    this.store.delete(key);
+  }
+}
\ No newline at end of file
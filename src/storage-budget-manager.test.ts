@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorageAdapter } from './adapters';
+import { Utils } from './utils';
+import { StorageCleaner } from './storage-cleaner';
+import { StorageBudgetManager } from './storage-budget-manager';
+
+const VALUE = 'x'.repeat(1000);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('StorageBudgetManager', () => {
+  it('evicts the least recently used data across members', async () => {
+    // 每次读取时间前进1秒，保证访问顺序可区分
+    let now = Date.now();
+    vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+
+    const local = new MemoryStorageAdapter();
+    const session = new MemoryStorageAdapter();
+    const budget = new StorageBudgetManager({ session, local }, { maxTotalSize: 1400 });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // local 只有一个最早写入的大键，session 有四个较新的小键，两边都能单独腾出需要的空间
+    await budget.getMember('local')!.setItem('archive', VALUE);
+    for (const key of ['recent_1', 'recent_2', 'recent_3', 'recent_4']) {
+      await budget.getMember('session')!.setItem(key, VALUE.slice(0, 250));
+    }
+
+    const report = await budget.enforce();
+
+    expect(report.reports.local?.keys).toEqual(['archive']);
+    expect(report.reports.session).toBeUndefined();
+    expect(session.getAllKeys().filter(key => !Utils.isSystemKey(key))).toHaveLength(4);
+
+    budget.destroy();
+  });
+
+  it('does nothing while usage stays within the budget', async () => {
+    const local = new MemoryStorageAdapter();
+    const cleaner = new StorageCleaner(local, { autoCleanup: false });
+    const budget = new StorageBudgetManager({ local: cleaner }, { maxTotalSize: 10000 });
+
+    await cleaner.setItem('profile', VALUE);
+    const report = await budget.enforce();
+
+    expect(report.requiredSpace).toBe(0);
+    expect(report.reports).toEqual({});
+
+    budget.destroy();
+    cleaner.destroy();
+  });
+});
\ No newline at end of file
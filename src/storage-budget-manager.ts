@@ -0,0 +1,267 @@
+import {
+  IStorageAdapter,
+  ICleanupCandidate,
+  IStorageBudgetConfig,
+  IStorageBudgetUsage,
+  IStorageBudgetReport
+} from './interfaces';
+import { StorageCleaner } from './storage-cleaner';
+import { Utils } from './utils';
+
+/**
+ * 默认配置
+ */
+const DEFAULT_BUDGET_CONFIG: IStorageBudgetConfig = {
+  quotaRatio: 0.8, // 预留部分配额给其他数据
+  cleanupThreshold: 1, // 100%
+  useEstimatedUsage: false,
+  checkInterval: 0, // 默认不定时检查
+  debug: false
+};
+
+/**
+ * 超出预算时释放到预算的80%，与单个清理器的做法一致
+ */
+const TARGET_RATIO = 0.8;
+
+/**
+ * 跨存储合并候选项时各层级的先后顺序，未列出的层级（各策略的常规淘汰）排在最后
+ */
+const TIER_ORDER = ['expired', 'time', 'disposable', 'unimportant-large', 'unimportant'];
+
+/**
+ * 全局存储预算管理器
+ * 管理多个清理器（如 localStorage 和 IndexedDB），总用量超出整个源的预算时，
+ * 按统一的优先级跨存储淘汰数据
+ */
+export class StorageBudgetManager {
+  private config: IStorageBudgetConfig;
+  private members: Map<string, StorageCleaner> = new Map();
+  private ownedMembers: Set<StorageCleaner> = new Set();
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private isEnforcing = false;
+
+  /**
+   * @param members 按名称索引的清理器或适配器，适配器会被包装为由管理器持有的清理器
+   */
+  constructor(
+    members: Record<string, StorageCleaner | IStorageAdapter> = {},
+    config: IStorageBudgetConfig = {}
+  ) {
+    this.config = { ...DEFAULT_BUDGET_CONFIG, ...config };
+
+    for (const name of Object.keys(members)) {
+      this.add(name, members[name]);
+    }
+
+    if (this.config.checkInterval) {
+      this.checkTimer = setInterval(() => {
+        this.enforce().catch(error => {
+          console.warn('[StorageBudget] Failed to enforce budget:', error);
+        });
+      }, this.config.checkInterval);
+    }
+  }
+
+  /**
+   * 添加成员，返回对应的清理器
+   * 传入适配器时创建一个不自动清理的清理器，移除成员或销毁管理器时一并销毁
+   */
+  add(name: string, member: StorageCleaner | IStorageAdapter): StorageCleaner {
+    if (this.members.has(name)) {
+      this.remove(name);
+    }
+
+    let cleaner: StorageCleaner;
+    if (member instanceof StorageCleaner) {
+      cleaner = member;
+    } else {
+      cleaner = new StorageCleaner(member, { autoCleanup: false, debug: this.config.debug });
+      this.ownedMembers.add(cleaner);
+    }
+
+    this.members.set(name, cleaner);
+    return cleaner;
+  }
+
+  /**
+   * 移除成员
+   */
+  remove(name: string): void {
+    const cleaner = this.members.get(name);
+    if (!cleaner) {
+      return;
+    }
+
+    this.members.delete(name);
+    if (this.ownedMembers.delete(cleaner)) {
+      cleaner.destroy();
+    }
+  }
+
+  /**
+   * 获取成员的清理器
+   */
+  getMember(name: string): StorageCleaner | undefined {
+    return this.members.get(name);
+  }
+
+  /**
+   * 获取预算和总用量
+   */
+  async getUsage(): Promise<IStorageBudgetUsage> {
+    const estimate = await this.estimate();
+    const members: Record<string, number> = {};
+    let membersSize = 0;
+
+    for (const [name, cleaner] of this.members) {
+      members[name] = await cleaner.getStorageSize();
+      membersSize += members[name];
+    }
+
+    const useEstimate = !!this.config.useEstimatedUsage && typeof estimate?.usage === 'number';
+
+    return {
+      budget: this.getBudget(estimate),
+      totalSize: useEstimate ? estimate!.usage! : membersSize,
+      members,
+      source: useEstimate ? 'estimate' : 'members'
+    };
+  }
+
+  /**
+   * 检查预算，超出时跨存储淘汰数据
+   * 各成员按自己的策略给出候选项，合并时先按层级、再按最近访问时间在成员之间比较
+   */
+  async enforce(options: { dryRun?: boolean } = {}): Promise<IStorageBudgetReport> {
+    const usage = await this.getUsage();
+    const report: IStorageBudgetReport = {
+      dryRun: !!options.dryRun,
+      usage,
+      requiredSpace: 0,
+      bytesFreed: 0,
+      reports: {}
+    };
+
+    // 上一轮还未完成时跳过，避免重复淘汰
+    if (this.isEnforcing || usage.totalSize <= usage.budget * (this.config.cleanupThreshold ?? 1)) {
+      return report;
+    }
+
+    this.isEnforcing = true;
+    try {
+      report.requiredSpace = usage.totalSize - usage.budget * TARGET_RATIO;
+
+      const queues: Array<{ name: string; candidates: ICleanupCandidate[] }> = [];
+      for (const [name, cleaner] of this.members) {
+        queues.push({ name, candidates: await cleaner.getCleanupPlan(report.requiredSpace) });
+      }
+
+      // 每次从各成员计划的队首中取排序最靠前的一个，成员内部保持自己策略的顺序
+      const selected: Map<string, ICleanupCandidate[]> = new Map();
+      let plannedSize = 0;
+      while (plannedSize < report.requiredSpace) {
+        let next: { name: string; candidates: ICleanupCandidate[] } | null = null;
+        for (const queue of queues) {
+          if (queue.candidates.length > 0 &&
+            (!next || this.compareCandidates(queue.candidates[0], next.candidates[0]) < 0)) {
+            next = queue;
+          }
+        }
+
+        if (!next) {
+          break;
+        }
+
+        const candidate = next.candidates.shift()!;
+        const candidates = selected.get(next.name) || [];
+        candidates.push(candidate);
+        selected.set(next.name, candidates);
+        plannedSize += candidate.size;
+      }
+
+      for (const [name, candidates] of selected) {
+        const memberReport = await this.members.get(name)!.evict(candidates, {
+          trigger: 'budget',
+          dryRun: options.dryRun
+        });
+        report.reports[name] = memberReport;
+        report.bytesFreed += memberReport.bytesFreed;
+      }
+
+      if (this.config.debug) {
+        console.log(
+          `[StorageBudget] ${options.dryRun ? 'Planned' : 'Freed'} ${Utils.formatBytes(report.bytesFreed)} ` +
+          `(usage ${Utils.formatBytes(usage.totalSize)} / budget ${Utils.formatBytes(usage.budget)})`
+        );
+      }
+    } finally {
+      this.isEnforcing = false;
+    }
+
+    return report;
+  }
+
+  /**
+   * 计算预算，显式配置优先，其次使用 estimate() 的配额，都没有时不限制
+   */
+  private getBudget(estimate: StorageEstimate | null): number {
+    if (this.config.maxTotalSize !== undefined) {
+      return this.config.maxTotalSize;
+    }
+
+    if (estimate?.quota) {
+      return estimate.quota * (this.config.quotaRatio ?? 0.8);
+    }
+
+    return Infinity;
+  }
+
+  /**
+   * 读取 navigator.storage.estimate()，不支持时返回null
+   */
+  private async estimate(): Promise<StorageEstimate | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    try {
+      return await navigator.storage.estimate();
+    } catch (error) {
+      console.warn('[StorageBudget] Failed to estimate storage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 跨存储比较两个候选项：先按层级，同一层级内越久未访问越先淘汰，没有访问记录的最先淘汰
+   */
+  private compareCandidates(a: ICleanupCandidate, b: ICleanupCandidate): number {
+    return this.getTierRank(a.tier) - this.getTierRank(b.tier) || (a.lastAccess ?? 0) - (b.lastAccess ?? 0);
+  }
+
+  /**
+   * 获取层级在统一排序中的位置
+   */
+  private getTierRank(tier: string): number {
+    const index = TIER_ORDER.indexOf(tier);
+    return index === -1 ? TIER_ORDER.length : index;
+  }
+
+  /**
+   * 销毁管理器，由管理器创建的清理器一并销毁
+   */
+  destroy(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    for (const cleaner of this.ownedMembers) {
+      cleaner.destroy();
+    }
+
+    this.ownedMembers.clear();
+    this.members.clear();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,330 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IQuotaRecoveryResult } from './interfaces';
+import { IndexedDBAdapter, MemoryStorageAdapter } from './adapters';
+import { Utils } from './utils';
+import { StorageCleaner } from './storage-cleaner';
+
+const VALUE = 'x'.repeat(3000);
+
+const cleaners: StorageCleaner[] = [];
+
+const createCleaner = async (adapter: MemoryStorageAdapter, config: ConstructorParameters<typeof StorageCleaner>[1] = {}) => {
+  const cleaner = new StorageCleaner(adapter, { autoCleanup: false, crossTabSync: false, maxStorageSize: Infinity, ...config });
+  cleaners.push(cleaner);
+  // 等待策略加载访问记录
+  await new Promise(resolve => setTimeout(resolve, 0));
+  return cleaner;
+};
+
+// 每次读取时间前进1秒，保证访问顺序可区分
+const advanceClock = () => {
+  let now = Date.now();
+  vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+};
+
+afterEach(() => {
+  cleaners.splice(0).forEach(cleaner => cleaner.destroy());
+  vi.restoreAllMocks();
+});
+
+describe('StorageCleaner quota recovery', () => {
+  it('evicts the least recently used keys and retries the write', async () => {
+    advanceClock();
+    const adapter = new MemoryStorageAdapter(8000);
+    const cleaner = await createCleaner(adapter);
+    const recoveries: IQuotaRecoveryResult[] = [];
+    cleaner.on('quotaExceeded', result => recoveries.push(result));
+
+    // 删除 old 即可腾出写入 incoming 需要的空间
+    await cleaner.setItem('old', VALUE + 'x'.repeat(100));
+    await cleaner.setItem('recent', VALUE);
+    await cleaner.setItem('incoming', VALUE);
+
+    expect(adapter.getAllKeys().filter(key => !Utils.isSystemKey(key)).sort()).toEqual(['incoming', 'recent']);
+    expect(recoveries).toHaveLength(1);
+    expect(recoveries[0]).toMatchObject({ key: 'incoming', success: true, cleared: false });
+    expect(recoveries[0].report.keys).toEqual(['old']);
+  });
+
+  it('keeps excluded and pinned keys and fails instead of clearing storage', async () => {
+    advanceClock();
+    const adapter = new MemoryStorageAdapter(8000);
+    // 关闭插入时的时间清理，过期的键留给容量清理
+    const cleaner = await createCleaner(adapter, { excludeKeys: ['token'], enableTimeBasedCleanup: false });
+
+    await cleaner.setItem('token', VALUE);
+    await cleaner.setItem('bundle', VALUE);
+    cleaner.pin('bundle');
+
+    await expect(cleaner.setItem('incoming', VALUE)).rejects.toThrow();
+    expect(adapter.getAllKeys().sort()).toEqual(['bundle', 'token']);
+  });
+
+  it('does not evict business data to make room for metadata', async () => {
+    advanceClock();
+    const adapter = new MemoryStorageAdapter(8000);
+    const cleaner = await createCleaner(adapter);
+    const recoveries: IQuotaRecoveryResult[] = [];
+    cleaner.on('quotaExceeded', result => recoveries.push(result));
+
+    await cleaner.setItem('first', VALUE);
+    await cleaner.setItem('second', VALUE);
+
+    expect(() => adapter.setItem('__lru_access_records__', VALUE)).toThrow();
+    expect(adapter.getAllKeys().sort()).toEqual(['first', 'second']);
+    expect(recoveries).toEqual([]);
+  });
+});
+
+describe('StorageCleaner pinning', () => {
+  it('leaves pinned keys out of cleanup plans until they are unpinned', async () => {
+    advanceClock();
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter);
+
+    await cleaner.setItem('draft', VALUE);
+    await cleaner.setItem('profile', VALUE);
+    cleaner.pin('draft', { persist: false });
+
+    expect((await cleaner.getCleanupPlan(Infinity)).map(({ key }) => key)).toEqual(['profile']);
+
+    cleaner.unpin('draft');
+    expect((await cleaner.getCleanupPlan(Infinity)).map(({ key }) => key)).toEqual(['draft', 'profile']);
+  });
+
+  it('persists pins with the access records unless persist is false', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter);
+
+    await cleaner.setItem('draft', 'value');
+    cleaner.pin('draft', { persist: false });
+    // 没有访问记录的键也可以固定
+    cleaner.pin('offline_bundle');
+    expect(cleaner.getPinnedKeys().sort()).toEqual(['draft', 'offline_bundle']);
+
+    await (cleaner.getStrategy() as unknown as { saveAccessRecords(): Promise<void> }).saveAccessRecords();
+    cleaner.destroy();
+
+    const reloaded = await createCleaner(adapter);
+    expect(reloaded.getPinnedKeys()).toEqual(['offline_bundle']);
+    expect(reloaded.isPinned('draft')).toBe(false);
+  });
+});
+
+describe('StorageCleaner namespaces', () => {
+  it('evicts only keys of the namespace whose quota the write exceeds', async () => {
+    advanceClock();
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter, {
+      autoCleanup: true,
+      namespaces: [
+        { name: 'images', prefix: 'img:', maxStorageSize: 8000 },
+        // 最长前缀优先，缩略图不占用 images 的配额
+        { name: 'thumbs', prefix: 'img:thumb:', maxStorageSize: Infinity }
+      ]
+    });
+
+    await cleaner.setItem('profile', VALUE);
+    await cleaner.setItem('img:thumb:1', VALUE);
+    await cleaner.setItem('img:1', VALUE);
+    await cleaner.setItem('img:2', VALUE);
+    await cleaner.setItem('img:3', VALUE);
+    await cleaner.setItem('img:4', VALUE);
+
+    // 更早写入的 profile 和缩略图不属于 images，不会被清理
+    expect(adapter.getAllKeys().filter(key => !Utils.isSystemKey(key)).sort())
+      .toEqual(['img:2', 'img:3', 'img:4', 'img:thumb:1', 'profile']);
+
+    // 统计在写入后异步更新
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cleaner.getStats().namespaces?.images).toMatchObject({ itemCount: 3, maxSize: 8000, cleanupCount: 1 });
+  });
+});
+
+describe('StorageCleaner TTL', () => {
+  const MINUTE = 60 * 1000;
+
+  // 固定当前时间，便于推进到过期之后
+  const mockClock = () => {
+    let now = Date.now();
+    vi.spyOn(Utils, 'now').mockImplementation(() => now);
+    return (ms: number) => {
+      now += ms;
+    };
+  };
+
+  it('returns values until they expire and null afterwards', async () => {
+    const advance = mockClock();
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter);
+
+    await cleaner.setItem('api:profile', 'value', { ttl: 5 * MINUTE });
+    await expect(cleaner.getItem('api:profile')).resolves.toBe('value');
+
+    advance(5 * MINUTE);
+    await expect(cleaner.getItem('api:profile')).resolves.toBeNull();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(adapter.getItem('api:profile')).toBeNull();
+  });
+
+  it('clears the expiry when a key is overwritten without a ttl', async () => {
+    const advance = mockClock();
+    const cleaner = await createCleaner(new MemoryStorageAdapter());
+
+    await cleaner.setItem('draft', 'first', { ttl: MINUTE });
+    await cleaner.setItem('draft', 'second');
+
+    advance(2 * MINUTE);
+    await expect(cleaner.getItem('draft')).resolves.toBe('second');
+  });
+
+  it('expires excluded keys and evicts expired keys first', async () => {
+    const advance = mockClock();
+    const adapter = new MemoryStorageAdapter();
+    // 关闭插入时的时间清理，过期的键留给容量清理
+    const cleaner = await createCleaner(adapter, { excludeKeys: ['token'], enableTimeBasedCleanup: false });
+
+    await cleaner.setItem('token', 'value', { ttl: MINUTE });
+    await cleaner.setItem('cache_list', VALUE, { expiresAt: Utils.now() + MINUTE });
+    await cleaner.setItem('profile', VALUE);
+
+    advance(MINUTE);
+    await expect(cleaner.getItem('token')).resolves.toBeNull();
+
+    const plan = await cleaner.getCleanupPlan(1);
+    expect(plan[0]).toMatchObject({ key: 'cache_list', tier: 'expired' });
+  });
+});
+
+describe('StorageCleaner exclusive cleanup', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  // 记录每次删除是否发生在清理器的串行清理内
+  const trackRemovals = (cleaner: StorageCleaner, adapter: MemoryStorageAdapter) => {
+    const internals = cleaner as unknown as { runExclusive<T>(task: () => Promise<T>): Promise<T> };
+    const runExclusive = internals.runExclusive.bind(cleaner);
+    const removeItem = adapter.removeItem.bind(adapter);
+    const removals: Array<{ key: string; locked: boolean }> = [];
+    let locked = false;
+
+    internals.runExclusive = task => runExclusive(async () => {
+      locked = true;
+      try {
+        return await task();
+      } finally {
+        locked = false;
+      }
+    });
+    adapter.removeItem = key => {
+      removals.push({ key, locked });
+      removeItem(key);
+    };
+
+    return removals;
+  };
+
+  it('runs insert-time cleanup of stale keys inside the cleanup lock', async () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('stale', 'value');
+    const { compressed } = Utils.compressAccessRecords({
+      stale: { lastAccess: Date.now() - 30 * DAY, accessCount: 1, size: 1024 }
+    });
+    adapter.setItem('__lru_access_records__', Utils.wrapWithChecksum(compressed, 0));
+
+    const cleaner = await createCleaner(adapter, { enableTimeBasedCleanup: true, timeCleanupThreshold: 7 });
+    const removals = trackRemovals(cleaner, adapter);
+
+    await cleaner.setItem('fresh', 'value');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(adapter.getItem('stale')).toBeNull();
+    expect(adapter.getItem('fresh')).toBe('value');
+    expect(removals).toEqual([{ key: 'stale', locked: true }]);
+  });
+
+  it('keeps keys written while an insert-time cleanup is queued', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter, { enableTimeBasedCleanup: true });
+
+    const keys = ['key_1', 'key_2', 'key_3', 'key_4', 'key_5'];
+    for (const key of keys) {
+      await cleaner.setItem(key, 'value');
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(adapter.getAllKeys().filter(key => !Utils.isSystemKey(key))).toEqual(keys);
+  });
+
+  it('treats expired keys as missing and removes them inside the cleanup lock', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const cleaner = await createCleaner(adapter);
+    const removals = trackRemovals(cleaner, adapter);
+
+    await cleaner.setItem('session', 'value', { expiresAt: Date.now() - 1 });
+
+    await expect(cleaner.getItem('session')).resolves.toBeNull();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(adapter.getItem('session')).toBeNull();
+    expect(removals).toEqual([{ key: 'session', locked: true }]);
+  });
+});
+
+describe('StorageCleaner IndexedDB proxy', () => {
+  // 绕过适配器直接写入，模拟业务代码使用原生 IndexedDB
+  const putDirectly = (dbName: string, storeName: string, key: string, value: string) =>
+    new Promise<void>((resolve, reject) => {
+      const open = indexedDB.open(dbName);
+      open.onerror = () => reject(open.error);
+      open.onsuccess = () => {
+        const db = open.result;
+        const request = db.transaction([storeName], 'readwrite').objectStore(storeName).put({ key, value });
+        request.onsuccess = () => {
+          db.close();
+          resolve();
+        };
+        request.onerror = () => reject(request.error);
+      };
+    });
+
+  const createIndexedDBCleaner = async (dbName: string) => {
+    const adapter = new IndexedDBAdapter(dbName, 'store');
+    await adapter.getAllKeys();
+    const cleaner = new StorageCleaner(adapter, { autoCleanup: false, crossTabSync: false });
+    cleaners.push(cleaner);
+    const trackAccess = vi.spyOn(cleaner as unknown as { trackAccess(key: string): void }, 'trackAccess');
+    return { cleaner, trackAccess };
+  };
+
+  it('keeps proxies of other cleaners when one cleaner uninstalls', async () => {
+    const originalPut = IDBObjectStore.prototype.put;
+    const first = await createIndexedDBCleaner('proxy_first');
+    const second = await createIndexedDBCleaner('proxy_second');
+
+    first.cleaner.installProxy();
+    second.cleaner.installProxy();
+    first.cleaner.uninstallProxy();
+
+    await putDirectly('proxy_first', 'store', 'draft', 'value');
+    await putDirectly('proxy_second', 'store', 'draft', 'value');
+    expect(first.trackAccess).not.toHaveBeenCalled();
+    expect(second.trackAccess).toHaveBeenCalledWith('draft', 'value');
+
+    second.cleaner.uninstallProxy();
+    expect(IDBObjectStore.prototype.put).toBe(originalPut);
+
+    await putDirectly('proxy_second', 'store', 'draft_2', 'value');
+    expect(second.trackAccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores the adapter\'s own requests', async () => {
+    const { cleaner, trackAccess } = await createIndexedDBCleaner('proxy_internal');
+    cleaner.installProxy();
+
+    await cleaner.setItem('profile', 'value');
+    expect(trackAccess).toHaveBeenCalledTimes(1);
+
+    cleaner.uninstallProxy();
+  });
+});
\ No newline at end of file
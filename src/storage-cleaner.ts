@@ -2,11 +2,31 @@ import {
   IStorageAdapter,
   ICleanupStrategy,
   IStorageCleanerConfig,
-  IStorageStats
+  IStorageStats,
+  ISetItemOptions,
+  KeyPattern,
+  PriorityTier,
+  IInsertionRule,
+  IPinOptions,
+  IQuotaRecoveryResult,
+  IStorageCleanerEvents,
+  StorageCleanerEventListener,
+  CleanupTrigger,
+  ICleanupCandidate,
+  ICleanupReport,
+  INamespaceConfig,
+  INamespaceStats
 } from './interfaces';
 import { LRUStrategy } from './strategies';
-import { LocalStorageAdapter, IndexedDBAdapter } from './adapters';
-import { Utils } from './utils';
+import {
+  WebStorageAdapter,
+  WebStorageName,
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  IndexedDBAdapter,
+  MemoryStorageAdapter
+} from './adapters';
+import { Utils, EventEmitter } from './utils';
 
 /**
  * 默认配置
@@ -21,7 +41,15 @@ const DEFAULT_CONFIG: IStorageCleanerConfig = {
   enableTimeBasedCleanup: true, // 启用基于时间的清理
   timeCleanupThreshold: 7, // 7天未访问自动清理
   cleanupOnInsert: true, // 插入时触发清理
-  unimportantKeys: [] // 不重要的keys列表，智能插入会自动处理
+  unimportantKeys: [], // 不重要的keys列表，智能插入会自动处理
+  dryRun: false, // 默认真实执行清理
+  quotaRecoveryAttempts: 3, // 配额超限时按策略淘汰的最大尝试次数
+  clearOnQuotaExceeded: false, // 默认不清空存储
+  crossTabSync: true, // 多标签页共享存储时合并访问记录并串行清理
+  autoQuota: false, // 默认使用固定的 maxStorageSize
+  quotaProbe: false, // 默认不探测 Web Storage 的配额
+  quotaRatio: 0.9, // 自动配额时预留10%的余量
+  quotaRefreshInterval: 10 * 60 * 1000 // 10分钟
 };
 
 /**
@@ -33,7 +61,12 @@ export class StorageCleaner {
   private config: IStorageCleanerConfig;
   private originalStorage: Storage | null = null;
   private isProxyInstalled = false;
+  private isRecoveringQuota = false;
   private stats: IStorageStats;
+  private events = new EventEmitter<IStorageCleanerEvents>();
+  private cleanupQueue: Promise<unknown> = Promise.resolve();
+  private namespaceCleanupCounts: Map<string, number> = new Map();
+  private quotaTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(
     adapter: IStorageAdapter,
@@ -50,7 +83,14 @@ export class StorageCleaner {
       enableTimeBasedCleanup: this.config.enableTimeBasedCleanup,
       timeCleanupThreshold: this.config.timeCleanupThreshold,
       cleanupOnInsert: this.config.cleanupOnInsert,
-      unimportantKeys: this.config.unimportantKeys
+      unimportantKeys: this.config.unimportantKeys,
+      dryRun: this.config.dryRun,
+      crossTabSync: !!this.config.crossTabSync && this.getCrossTabScope() !== null,
+      scorer: this.config.scorer,
+      priorityTiers: this.config.priorityTiers,
+      metadataStore: this.config.metadataStore,
+      maxRecords: this.config.maxRecords,
+      frequencySketch: this.config.frequencySketch
     });
 
     this.stats = {
@@ -61,9 +101,35 @@ export class StorageCleaner {
       cleanupCount: 0
     };
 
+    this.bindStrategyHooks(this.strategy);
+    for (const strategy of this.getNamespaceStrategies()) {
+      this.bindStrategyHooks(strategy);
+    }
+
+    // 适配器直接写入触发配额超限时，按策略淘汰部分数据后重试
+    this.adapter.setQuotaExceededHandler?.((key, value, retry) =>
+      this.recoverFromQuotaExceeded(key, value, retry)
+    );
+
+    this.setupAutoQuota();
     this.updateStats();
   }
 
+  /**
+   * 监听生命周期事件，返回取消监听的函数
+   * beforeEvict 监听器返回false可以阻止删除对应的键
+   */
+  on<K extends keyof IStorageCleanerEvents>(event: K, listener: StorageCleanerEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * 取消监听生命周期事件
+   */
+  off<K extends keyof IStorageCleanerEvents>(event: K, listener: StorageCleanerEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * 安装代理，拦截存储操作
    */
@@ -73,8 +139,10 @@ export class StorageCleaner {
       return;
     }
 
-    if (this.adapter instanceof LocalStorageAdapter) {
-      this.installLocalStorageProxy();
+    if (this.adapter instanceof WebStorageAdapter) {
+      this.installWebStorageProxy(this.adapter.getStorageName());
+    } else if (this.adapter instanceof IndexedDBAdapter) {
+      this.installIndexedDBProxy();
     }
 
     this.isProxyInstalled = true;
@@ -93,12 +161,17 @@ export class StorageCleaner {
       return;
     }
 
-    if (this.originalStorage && this.adapter instanceof LocalStorageAdapter) {
-      Object.defineProperty(window, 'localStorage', {
+    if (this.originalStorage && this.adapter instanceof WebStorageAdapter) {
+      Object.defineProperty(window, this.adapter.getStorageName(), {
         value: this.originalStorage,
         writable: true,
         configurable: true
       });
+      this.originalStorage = null;
+    }
+
+    if (this.adapter instanceof IndexedDBAdapter) {
+      this.uninstallIndexedDBProxy();
     }
 
     this.isProxyInstalled = false;
@@ -109,19 +182,24 @@ export class StorageCleaner {
   }
 
   /**
-   * 安装localStorage代理
+   * 安装Web Storage代理（localStorage / sessionStorage）
    */
-  private installLocalStorageProxy(): void {
-    this.originalStorage = window.localStorage;
+  private installWebStorageProxy(storageName: WebStorageName): void {
+    this.originalStorage = window[storageName];
 
     const self = this;
     const proxiedStorage = new Proxy(this.originalStorage, {
       get(target, prop, receiver) {
         if (prop === 'getItem') {
           return function (key: string) {
+            // 已过期的键按未命中处理
+            if (self.evictIfExpired(key)) {
+              return null;
+            }
+
             const result = target.getItem(key);
             if (result !== null) {
-              self.strategy.recordAccess(key);
+              self.trackAccess(key);
             }
             return result;
           };
@@ -130,38 +208,37 @@ export class StorageCleaner {
         if (prop === 'setItem') {
           return function (key: string, value: string) {
             // 智能插入检查 - 优先进行，如果拒绝则不做任何操作
-            if (self.config.unimportantKeys && self.config.unimportantKeys.length > 0) {
-              // 检查是否应该拒绝插入（不重要的大数据且空间不足）
-              const shouldReject = self.shouldRejectInsertion(key);
-              if (shouldReject) {
-                if (self.config.debug) {
-                  console.log(`[StorageCleaner] 拒绝插入不重要数据: ${key} (${Utils.formatDataSize(Utils.estimateDataSize(value))})`);
-                }
-                return; // 直接返回，不做任何操作
+            // 按键所属层级的插入规则判断（默认不重要的数据在空间不足时拒绝）
+            const shouldReject = self.shouldRejectInsertion(key, value);
+            if (shouldReject) {
+              if (self.config.debug) {
+                console.log(`[StorageCleaner] 拒绝插入: ${key} (${Utils.formatDataSize(Utils.estimateDataSize(value))})`);
               }
+              return; // 直接返回，不做任何操作
             }
 
             // 在设置前检查是否需要清理
             if (self.config.autoCleanup) {
-              self.checkAndCleanup(Utils.estimateDataSize(key) + Utils.estimateDataSize(value));
+              self.checkAndCleanup(Utils.estimateDataSize(key) + Utils.estimateDataSize(value), key);
             }
 
             try {
               target.setItem(key, value);
             } catch (error) {
-              if (typeof target.clear === 'function') {
-                target.clear();
-                // 重试设置
-                try {
-                  target.setItem(key, value);
-                } catch (retryError) {
-                  throw '重新设置失败';
-                }
+              if (!Utils.isQuotaExceededError(error) || Utils.isSystemKey(key)) {
+                throw error;
+              }
+
+              // 配额超限：按策略淘汰部分数据后重试
+              const result = self.recoverFromQuotaExceeded(key, value, () => target.setItem(key, value));
+              if (!result.success) {
+                throw error;
               }
             }
 
-            // 记录访问
-            self.strategy.recordAccess(key, value);
+            // 记录访问，覆盖写入时清除之前设置的过期时间
+            self.trackAccess(key, value);
+            self.trackExpiry(key, null);
 
             self.updateStats();
           };
@@ -195,101 +272,919 @@ export class StorageCleaner {
       }
     });
 
-    // 替换全局localStorage
-    Object.defineProperty(window, 'localStorage', {
+    // 替换全局存储对象
+    Object.defineProperty(window, storageName, {
       value: proxiedStorage,
       writable: true,
       configurable: true
     });
   }
 
+  /**
+   * 安装IndexedDB代理
+   * 把清理器登记到对应的数据库和对象仓库，IDBObjectStore 的方法由所有清理器共用一套包装
+   */
+  private installIndexedDBProxy(): void {
+    if (typeof IDBObjectStore === 'undefined') {
+      console.warn('[StorageCleaner] IndexedDB is not available, proxy skipped');
+      return;
+    }
+
+    const adapter = this.adapter as IndexedDBAdapter;
+    const storeKey = StorageCleaner.getIDBStoreKey(adapter.getDatabaseName(), adapter.getStoreName());
+    const registered = StorageCleaner.idbProxyCleaners.get(storeKey);
+    if (registered && registered !== this) {
+      console.warn(`[StorageCleaner] IndexedDB store "${adapter.getStoreName()}" is already proxied by another cleaner, proxy skipped`);
+      return;
+    }
+
+    StorageCleaner.idbProxyCleaners.set(storeKey, this);
+    StorageCleaner.wrapIDBObjectStore();
+  }
+
+  /**
+   * 卸载IndexedDB代理，最后一个清理器卸载时才恢复原始方法
+   */
+  private uninstallIndexedDBProxy(): void {
+    const adapter = this.adapter as IndexedDBAdapter;
+    const storeKey = StorageCleaner.getIDBStoreKey(adapter.getDatabaseName(), adapter.getStoreName());
+    if (StorageCleaner.idbProxyCleaners.get(storeKey) !== this) {
+      return;
+    }
+
+    StorageCleaner.idbProxyCleaners.delete(storeKey);
+    if (StorageCleaner.idbProxyCleaners.size === 0 && StorageCleaner.originalIDBMethods) {
+      Object.assign(IDBObjectStore.prototype, StorageCleaner.originalIDBMethods);
+      StorageCleaner.originalIDBMethods = null;
+    }
+  }
+
+  /**
+   * 安装了IndexedDB代理的清理器，按数据库和对象仓库索引
+   */
+  private static idbProxyCleaners: Map<string, StorageCleaner> = new Map();
+
+  /**
+   * 包装前的 IDBObjectStore 方法，没有清理器安装代理时为null
+   */
+  private static originalIDBMethods: Pick<IDBObjectStore, 'get' | 'put' | 'add' | 'delete'> | null = null;
+
+  /**
+   * 生成数据库和对象仓库的登记键
+   */
+  private static getIDBStoreKey(dbName: string, storeName: string): string {
+    return JSON.stringify([dbName, storeName]);
+  }
+
+  /**
+   * 包装 IDBObjectStore 的 get/put/add/delete（只包装一次）
+   * 请求按所在的数据库和对象仓库分发给登记的清理器，其他仓库的请求原样执行
+   */
+  private static wrapIDBObjectStore(): void {
+    if (StorageCleaner.originalIDBMethods) {
+      return;
+    }
+
+    const proto = IDBObjectStore.prototype;
+    const original = {
+      get: proto.get,
+      put: proto.put,
+      add: proto.add,
+      delete: proto.delete
+    };
+    StorageCleaner.originalIDBMethods = original;
+
+    // 适配器自身的请求（StorageCleaner.getItem/setItem、getItemSize 等）已自行记录访问，不再重复拦截
+    const getCleaner = (store: IDBObjectStore): StorageCleaner | undefined =>
+      IndexedDBAdapter.isInternalRequest()
+        ? undefined
+        : StorageCleaner.idbProxyCleaners.get(StorageCleaner.getIDBStoreKey(store.transaction.db.name, store.name));
+
+    const wrapWrite = (method: IDBObjectStore['put']) => {
+      return function (this: IDBObjectStore, ...args: [any, IDBValidKey?]) {
+        const cleaner = getCleaner(this);
+        return cleaner ? cleaner.interceptIDBWrite(this, method, args) : method.apply(this, args);
+      };
+    };
+
+    proto.get = function (this: IDBObjectStore, query: IDBValidKey | IDBKeyRange) {
+      const request = original.get.call(this, query);
+      getCleaner(this)?.interceptIDBGet(request, query);
+      return request;
+    };
+
+    proto.put = wrapWrite(original.put);
+    proto.add = wrapWrite(original.add);
+
+    proto.delete = function (this: IDBObjectStore, query: IDBValidKey | IDBKeyRange) {
+      const request = original.delete.call(this, query);
+      const cleaner = getCleaner(this);
+      if (cleaner) {
+        request.addEventListener('success', () => {
+          cleaner.updateStats();
+        });
+      }
+      return request;
+    };
+  }
+
+  /**
+   * 拦截对被管理仓库的写入：写入前检查清理，成功后记录访问
+   */
+  private interceptIDBWrite(
+    store: IDBObjectStore,
+    method: IDBObjectStore['put'],
+    args: [any, IDBValidKey?]
+  ): IDBRequest<IDBValidKey> {
+    // 适配器的数据结构为 { key, value }，keyPath 为 key
+    const [record, outOfLineKey] = args;
+    const key = outOfLineKey !== undefined ? outOfLineKey : record && record.key;
+    if (typeof key !== 'string' || Utils.isSystemKey(key)) {
+      return method.apply(store, args);
+    }
+
+    const rawValue = record && typeof record === 'object' && 'value' in record ? record.value : record;
+    const value = typeof rawValue === 'string' ? rawValue : JSON.stringify(rawValue) ?? '';
+
+    // 在写入前检查是否需要清理
+    if (this.config.autoCleanup) {
+      this.checkAndCleanup(Utils.estimateDataSize(key) + Utils.estimateDataSize(value), key);
+    }
+
+    const request = method.apply(store, args);
+    request.addEventListener('success', () => {
+      this.trackAccess(key, value);
+      this.trackExpiry(key, null);
+      this.updateStats();
+    });
+    return request;
+  }
+
+  /**
+   * 拦截对被管理仓库的读取：命中时记录访问，已过期的键按未命中处理
+   */
+  private interceptIDBGet(request: IDBRequest, query: IDBValidKey | IDBKeyRange): void {
+    if (typeof query !== 'string' || Utils.isSystemKey(query)) {
+      return;
+    }
+
+    request.addEventListener('success', () => {
+      if (request.result === undefined) {
+        return;
+      }
+
+      // 已过期的键按未命中处理，在业务的 onsuccess 之前覆盖结果
+      if (this.evictIfExpired(query)) {
+        Object.defineProperty(request, 'result', { value: undefined });
+        return;
+      }
+
+      this.trackAccess(query);
+    });
+  }
+
+  /**
+   * 写入数据，可以为单个键设置过期时间
+   * @returns 被智能插入拒绝时返回false
+   */
+  async setItem(key: string, value: string, options: ISetItemOptions = {}): Promise<boolean> {
+    if (this.shouldRejectInsertion(key, value)) {
+      return false;
+    }
+
+    if (this.config.autoCleanup) {
+      await this.checkAndCleanup(Utils.estimateDataSize(key) + Utils.estimateDataSize(value), key);
+    }
+
+    // 配额超限由适配器的处理器按策略淘汰后重试
+    // 同步写入后不等待，立即记录访问，否则锁内排队的时间清理可能把刚写入、还没有访问记录的键当作旧数据删除
+    const pending = this.adapter.setItem(key, value);
+    if (pending) {
+      await pending;
+    }
+
+    const expiresAt = options.expiresAt ??
+      (options.ttl !== undefined ? Utils.now() + options.ttl : null);
+
+    this.trackAccess(key, value);
+    this.trackExpiry(key, expiresAt);
+    this.updateStats();
+
+    return true;
+  }
+
+  /**
+   * 读取数据，已过期的键返回null
+   */
+  async getItem(key: string): Promise<string | null> {
+    if (this.evictIfExpired(key)) {
+      return null;
+    }
+
+    const value = await this.adapter.getItem(key);
+    if (value !== null) {
+      this.trackAccess(key);
+    }
+    return value;
+  }
+
+  /**
+   * 删除数据
+   */
+  async removeItem(key: string): Promise<void> {
+    await this.adapter.removeItem(key);
+    this.forgetKeys([key]);
+    this.updateStats();
+  }
+
+  /**
+   * 固定键，固定的键不会被容量清理、时间清理和配额超限恢复删除
+   * 默认随访问记录持久化，传 { persist: false } 时只在当前页面生命周期内有效
+   */
+  pin(key: string, options?: IPinOptions): void {
+    if (!this.strategy.pin) {
+      console.warn(`[StorageCleaner] Strategy ${this.strategy.getName()} does not support pinning`);
+      return;
+    }
+
+    this.strategy.pin(key, options);
+    this.getNamespaceStrategy(key)?.pin?.(key, options);
+  }
+
+  /**
+   * 取消固定键
+   */
+  unpin(key: string): void {
+    this.strategy.unpin?.(key);
+    this.getNamespaceStrategy(key)?.unpin?.(key);
+  }
+
+  /**
+   * 检查键是否被固定
+   */
+  isPinned(key: string): boolean {
+    return !!this.strategy.isPinned?.(key);
+  }
+
+  /**
+   * 获取所有被固定的键
+   */
+  getPinnedKeys(): string[] {
+    return this.strategy.getPinnedKeys?.() || [];
+  }
+
+  /**
+   * 记录访问，键所属命名空间使用独立策略时同时记录到该策略
+   */
+  private trackAccess(key: string, value?: string): void {
+    this.strategy.recordAccess(key, value);
+    this.getNamespaceStrategy(key)?.recordAccess(key, value);
+  }
+
+  /**
+   * 设置过期时间，同样同步到命名空间的策略
+   */
+  private trackExpiry(key: string, expiresAt: number | null): void {
+    this.strategy.setExpiry?.(key, expiresAt);
+    this.getNamespaceStrategy(key)?.setExpiry?.(key, expiresAt);
+  }
+
+  /**
+   * 通知策略键已被删除
+   * @param evicted 是否为按策略淘汰（主动删除和过期删除不算）
+   */
+  private forgetKeys(keys: string[], evicted: boolean = false): void {
+    this.strategy.cleanup(keys, { evicted });
+
+    for (const namespace of this.config.namespaces || []) {
+      if (!namespace.strategy || namespace.strategy === this.strategy) {
+        continue;
+      }
+
+      const namespaceKeys = keys.filter(key => this.getNamespace(key) === namespace);
+      if (namespaceKeys.length > 0) {
+        namespace.strategy.cleanup(namespaceKeys, { evicted });
+      }
+    }
+  }
+
+  /**
+   * 获取键所属的命名空间，匹配多个时取最长的前缀
+   */
+  private getNamespace(key: string): INamespaceConfig | null {
+    let matched: INamespaceConfig | null = null;
+
+    for (const namespace of this.config.namespaces || []) {
+      if (key.startsWith(namespace.prefix) && (!matched || namespace.prefix.length > matched.prefix.length)) {
+        matched = namespace;
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * 获取键所属命名空间的独立策略，未配置或与全局策略相同时返回null
+   */
+  private getNamespaceStrategy(key: string): ICleanupStrategy | null {
+    const strategy = this.getNamespace(key)?.strategy;
+    return strategy && strategy !== this.strategy ? strategy : null;
+  }
+
+  /**
+   * 获取所有命名空间的独立策略
+   */
+  private getNamespaceStrategies(): ICleanupStrategy[] {
+    const strategies: ICleanupStrategy[] = [];
+
+    for (const namespace of this.config.namespaces || []) {
+      if (namespace.strategy && namespace.strategy !== this.strategy && !strategies.includes(namespace.strategy)) {
+        strategies.push(namespace.strategy);
+      }
+    }
+
+    return strategies;
+  }
+
+  /**
+   * 获取命名空间内的键
+   */
+  private getNamespaceKeys(allKeys: string[], namespace: INamespaceConfig): string[] {
+    return allKeys.filter(key => !Utils.isSystemKey(key) && this.getNamespace(key) === namespace);
+  }
+
+  /**
+   * 计算一组键占用的字节数
+   */
+  private async getKeysSize(keys: string[]): Promise<number> {
+    let size = 0;
+    for (const key of keys) {
+      size += await this.adapter.getItemSize(key);
+    }
+    return size;
+  }
+
+  /**
+   * 如果键已过期则删除，返回是否已过期
+   * 读取立即按未命中处理，删除在串行清理（跨标签页锁）内执行，执行前键被重新写入则保留；
+   * critical 层、固定的键和被 beforeEvict 否决的键保留数据，但读取仍按未命中处理
+   */
+  private evictIfExpired(key: string): boolean {
+    if (!this.strategy.isExpired?.(key)) {
+      return false;
+    }
+
+    this.runExclusive(async () => {
+      if (!this.strategy.isExpired?.(key) || this.filterEvictableKeys([key], 'time').length === 0) {
+        return;
+      }
+
+      await this.adapter.removeItem(key);
+      this.forgetKeys([key]);
+      this.events.emit('afterEvict', { keys: [key], trigger: 'time' });
+      this.updateStats();
+    }).catch(error => {
+      console.warn(`[StorageCleaner] Failed to remove expired key "${key}":`, error);
+    });
+
+    return true;
+  }
+
   /**
    * 判断是否应该拒绝插入（智能插入策略）
-   * 只有不重要的数据 && 空间不足时才拒绝插入
+   * 按键所属层级的插入规则判断，默认只有不重要的数据 && 空间不足时才拒绝插入
    */
-  private shouldRejectInsertion(key: string): boolean {
-    // 检查是否为不重要的key
-    const isUnimportant = Utils.isUnimportantKey(key, this.config.unimportantKeys || []);
+  private shouldRejectInsertion(key: string, value: string): boolean {
+    const tier = this.getPriorityTier(key);
+    const rule = this.getInsertionRule(tier);
+    if (!rule) {
+      return false;
+    }
 
-    // 检查存储空间是否不足
     const stats = this.getStats();
-    const isSpaceInsufficient = stats.usageRatio > this.config.cleanupThreshold;
-
-    // 只有不重要的数据 && 空间不足时才拒绝插入
-    const shouldReject = isUnimportant && isSpaceInsufficient;
+    const size = Utils.estimateDataSize(value);
+
+    // 满足任一条件即拒绝：使用率超过阈值，或单个数据过大
+    const shouldReject =
+      (rule.rejectAboveUsage !== undefined && stats.usageRatio > rule.rejectAboveUsage) ||
+      (rule.maxItemSize !== undefined && size > rule.maxItemSize);
+
+    if (shouldReject) {
+      this.events.emit('rejected', {
+        key,
+        size,
+        usageRatio: stats.usageRatio
+      });
+    }
 
     if (this.config.debug && shouldReject) {
-      console.log(`[StorageCleaner] 存储空间不足 (${Math.round(stats.usageRatio * 100)}%) 且为不重要数据，拒绝插入: ${key}`);
+      console.log(`[StorageCleaner] 存储空间不足 (${Math.round(stats.usageRatio * 100)}%) 或数据过大，按 ${tier} 层规则拒绝插入: ${key}`);
     }
 
     return shouldReject;
   }
 
+  /**
+   * 获取层级的插入规则
+   * 未配置时 low 和 disposable 在使用率超过清理阈值时拒绝，其他层级不拒绝
+   */
+  private getInsertionRule(tier: PriorityTier): IInsertionRule | undefined {
+    const rule = this.config.insertionRules?.[tier];
+    if (rule) {
+      return rule;
+    }
+
+    return tier === 'low' || tier === 'disposable'
+      ? { rejectAboveUsage: this.config.cleanupThreshold }
+      : undefined;
+  }
+
+  /**
+   * 获取键所属的优先级层级
+   */
+  getPriorityTier(key: string): PriorityTier {
+    return Utils.getPriorityTier(key, this.config.priorityTiers, this.config.unimportantKeys);
+  }
+
   /**
    * 检查并执行清理
    */
-  private async checkAndCleanup(requiredSpace: number = 0): Promise<void> {
+  private async checkAndCleanup(requiredSpace: number = 0, key?: string): Promise<void> {
     try {
-      const currentSize = await this.adapter.getStorageSize();
-      const threshold = this.config.maxStorageSize * this.config.cleanupThreshold;
+      // 在锁内检查，其他标签页刚完成清理时可以直接跳过
+      await this.runExclusive(async () => {
+        // 先保证所属命名空间不超出自己的配额，再检查全局配额
+        const namespace = key !== undefined ? this.getNamespace(key) : null;
+        if (namespace) {
+          const namespaceKeys = this.getNamespaceKeys(await this.adapter.getAllKeys(), namespace);
+          const namespaceSize = await this.getKeysSize(namespaceKeys);
+          const namespaceThreshold = namespace.maxStorageSize *
+            (namespace.cleanupThreshold ?? this.config.cleanupThreshold);
+
+          if (namespaceSize + requiredSpace > namespaceThreshold) {
+            await this.performCleanup(requiredSpace, { trigger: 'insert', namespace });
+          }
+        }
 
-      if (currentSize + requiredSpace > threshold) {
-        await this.cleanup(requiredSpace);
-      }
+        const currentSize = await this.adapter.getStorageSize();
+        const threshold = this.config.maxStorageSize * this.config.cleanupThreshold;
+
+        if (currentSize + requiredSpace > threshold) {
+          await this.performCleanup(requiredSpace, { trigger: 'insert' });
+        }
+      });
     } catch (error) {
       console.warn('[StorageCleaner] Failed to check and cleanup:', error);
     }
   }
 
+  /**
+   * 串行执行清理任务
+   * localStorage 和 IndexedDB 通过 Web Locks 保证同一时间只有一个标签页在淘汰数据，
+   * 不支持 Web Locks 时退化为当前页面内串行
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const scope = this.config.crossTabSync ? this.getCrossTabScope() : null;
+    if (scope && typeof navigator !== 'undefined' && navigator.locks) {
+      // request 会等待回调返回的 Promise，实际结果就是任务的结果
+      return navigator.locks.request(Utils.generateStorageKey('cleaner', `lock_${scope}`), task) as unknown as Promise<T>;
+    }
+
+    const run = this.cleanupQueue.then(task, task);
+    this.cleanupQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 获取跨标签页共享的存储标识，sessionStorage 和内存存储不在标签页之间共享，返回null
+   */
+  private getCrossTabScope(): string | null {
+    if (this.adapter instanceof LocalStorageAdapter) {
+      return 'localStorage';
+    }
+
+    if (this.adapter instanceof IndexedDBAdapter) {
+      return `indexedDB_${this.adapter.getDatabaseName()}_${this.adapter.getStoreName()}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 配额超限恢复
+   * 让策略按需挑选刚好能腾出空间的键并删除后重试写入，每轮需要释放的空间翻倍；
+   * 全部失败后仅在开启 clearOnQuotaExceeded 时才清空（保留排除键和系统键）
+   */
+  private recoverFromQuotaExceeded(key: string, value: string, retry: () => void): IQuotaRecoveryResult {
+    const report = this.createCleanupReport('quota', false);
+    const result: IQuotaRecoveryResult = {
+      key,
+      success: false,
+      attempts: 0,
+      cleared: false,
+      report
+    };
+
+    // 淘汰过程中策略保存访问记录也可能触发配额超限，避免重入
+    if (this.isRecoveringQuota) {
+      return result;
+    }
+
+    this.isRecoveringQuota = true;
+    report.sizeBefore = this.getStorageSizeSync();
+    let freedSpace = 0;
+
+    try {
+      let requiredSpace = Utils.estimateDataSize(key) + Utils.estimateDataSize(value);
+      const maxAttempts = this.config.quotaRecoveryAttempts ?? 3;
+
+      while (result.attempts < maxAttempts) {
+        const allKeys = this.adapter.getAllKeys();
+        const currentSize = this.adapter.getStorageSize();
+
+        // 异步适配器无法在同步写入中完成恢复
+        if (!Array.isArray(allKeys) || typeof currentSize !== 'number') {
+          break;
+        }
+
+        result.attempts++;
+
+        // maxSize 传 0，策略只会挑选刚好释放 requiredSpace 的键
+        const candidates = this.selectCandidates(this.strategy, allKeys.filter(k => k !== key), currentSize, 0, requiredSpace)
+          .filter(candidate => !report.keys.includes(candidate.key) && !report.vetoedKeys.includes(candidate.key));
+
+        if (candidates.length === 0) {
+          break;
+        }
+
+        freedSpace += this.evictCandidatesSync(candidates, report);
+
+        if (this.tryWrite(retry)) {
+          result.success = true;
+          break;
+        }
+
+        requiredSpace *= 2;
+      }
+
+      if (!result.success && this.config.clearOnQuotaExceeded) {
+        const allKeys = this.adapter.getAllKeys();
+        if (Array.isArray(allKeys)) {
+          const candidates = allKeys
+            .filter(k => !Utils.isSystemKey(k) && !Utils.matchesKeyPattern(k, this.config.excludeKeys))
+            .filter(k => this.getPriorityTier(k) !== 'critical' && !this.isPinned(k))
+            .filter(k => !report.keys.includes(k) && !report.vetoedKeys.includes(k))
+            .map(k => this.toCandidate(k, 'clear', '按策略淘汰后仍无法写入，兜底清空'));
+
+          freedSpace += this.evictCandidatesSync(candidates, report);
+          result.cleared = true;
+          result.success = this.tryWrite(retry);
+        }
+      }
+
+      if (report.keys.length > 0) {
+        this.forgetKeys(report.keys, true);
+        this.stats.cleanupCount++;
+        this.stats.lastCleanup = Utils.now();
+        this.events.emit('afterEvict', { keys: report.keys, trigger: 'quota' });
+      }
+    } finally {
+      this.isRecoveringQuota = false;
+    }
+
+    // 期间重试写入了新数据，释放的空间按每轮删除前后的大小累计
+    this.finishCleanupReport(report, this.getStorageSizeSync(), report.sizeBefore - freedSpace);
+    this.stats.lastQuotaRecovery = result;
+    this.updateStats();
+    this.events.emit('quotaExceeded', result);
+
+    if (this.config.debug) {
+      console.log(`[StorageCleaner] Quota recovery for "${key}":`, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * 同步删除候选项，被 beforeEvict 否决的键记录到报告中
+   * @returns 本轮释放的字节数
+   */
+  private evictCandidatesSync(candidates: ICleanupCandidate[], report: ICleanupReport): number {
+    const sizeBefore = this.getStorageSizeSync();
+
+    for (const candidate of candidates) {
+      if (this.filterEvictableKeys([candidate.key], report.trigger).length === 0) {
+        report.vetoedKeys.push(candidate.key);
+        continue;
+      }
+
+      this.adapter.removeItem(candidate.key);
+      report.keys.push(candidate.key);
+      report.entries.push(candidate);
+    }
+
+    return sizeBefore - this.getStorageSizeSync();
+  }
+
+  /**
+   * 尝试写入，配额超限返回false，其他错误直接抛出
+   */
+  private tryWrite(write: () => void): boolean {
+    try {
+      write();
+      return true;
+    } catch (error) {
+      if (Utils.isQuotaExceededError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 过滤出允许删除的键：先统一排除 critical 层和固定的键，再通过 beforeEvict 事件过滤
+   * 所有删除都经过这里，组合策略的评分项和自定义策略选出的键同样受保护
+   */
+  private filterEvictableKeys(keys: string[], trigger: CleanupTrigger): string[] {
+    const evictableKeys = keys.filter(key => this.getPriorityTier(key) !== 'critical' && !this.isPinned(key));
+    if (!this.events.hasListeners('beforeEvict')) {
+      return evictableKeys;
+    }
+
+    return evictableKeys.filter(key => !this.events.emit('beforeEvict', { key, trigger }).includes(false));
+  }
+
+  /**
+   * 将淘汰钩子绑定到策略，使策略自行删除数据时也能触发事件
+   */
+  private bindStrategyHooks(strategy: ICleanupStrategy): void {
+    strategy.setEvictionHooks?.({
+      beforeEvict: (key, trigger) => this.filterEvictableKeys([key], trigger).length > 0,
+      afterEvict: (keys, trigger) => {
+        this.events.emit('afterEvict', { keys, trigger });
+        this.updateStats();
+      },
+      planned: (candidates, trigger) => {
+        const report = this.createCleanupReport(trigger, true);
+        const currentSize = this.getStorageSizeSync();
+        report.sizeBefore = currentSize;
+        report.keys = candidates.map(candidate => candidate.key);
+        report.entries = candidates;
+        this.events.emit('cleanupPlanned', this.finishCleanupReport(report, currentSize));
+      },
+      runExclusive: task => {
+        this.runExclusive(async () => task()).catch(error => {
+          console.warn('[StorageCleaner] Failed to run strategy cleanup:', error);
+        });
+      }
+    });
+  }
+
   /**
    * 执行清理
+   * 演练模式下只返回清理计划，不删除任何数据
+   * 指定 namespace 时只在该命名空间内按其配额清理
+   */
+  async cleanup(
+    requiredSpace: number = 0,
+    options: { trigger?: CleanupTrigger; dryRun?: boolean; namespace?: string } = {}
+  ): Promise<ICleanupReport> {
+    const { namespace: name, ...cleanupOptions } = options;
+    if (name === undefined) {
+      return this.runExclusive(() => this.performCleanup(requiredSpace, cleanupOptions));
+    }
+
+    const namespace = this.config.namespaces?.find(ns => ns.name === name);
+    if (!namespace) {
+      console.warn(`[StorageCleaner] Unknown namespace "${name}"`);
+      const dryRun = cleanupOptions.dryRun ?? this.config.dryRun ?? false;
+      return this.finishCleanupReport(this.createCleanupReport(cleanupOptions.trigger || 'manual', dryRun), 0);
+    }
+
+    return this.runExclusive(() => this.performCleanup(requiredSpace, { ...cleanupOptions, namespace }));
+  }
+
+  /**
+   * 在清理锁内执行清理
    */
-  async cleanup(requiredSpace: number = 0): Promise<void> {
+  private async performCleanup(
+    requiredSpace: number,
+    options: {
+      trigger?: CleanupTrigger;
+      dryRun?: boolean;
+      namespace?: INamespaceConfig;
+      candidates?: ICleanupCandidate[];
+    }
+  ): Promise<ICleanupReport> {
+    const dryRun = options.dryRun ?? this.config.dryRun ?? false;
+    const report = this.createCleanupReport(options.trigger || 'manual', dryRun);
+    const namespace = options.namespace;
+    const strategy = namespace?.strategy || this.strategy;
+
     try {
-      const allKeys = await this.adapter.getAllKeys();
-      const currentSize = await this.adapter.getStorageSize();
+      // 先合并其他标签页的访问记录，避免淘汰刚在别处访问过的数据
+      await strategy.syncAccessRecords?.();
 
-      const keysToCleanup = this.strategy.getKeysToCleanup(
-        allKeys,
-        currentSize,
-        this.config.maxStorageSize,
-        requiredSpace
-      );
+      let allKeys = await this.adapter.getAllKeys();
+      if (namespace) {
+        allKeys = this.getNamespaceKeys(allKeys, namespace);
+      }
+
+      // 命名空间内的大小只统计该命名空间的键
+      const measure = () => namespace ? this.getKeysSize(allKeys) : this.adapter.getStorageSize();
+      const maxSize = namespace ? namespace.maxStorageSize : this.config.maxStorageSize;
+      const currentSize = await measure();
+      report.sizeBefore = currentSize;
+
+      // 外部已经选好候选项时（如全局预算管理器）只删除其中仍然存在的键
+      const candidates = options.candidates
+        ? options.candidates.filter(candidate => allKeys.includes(candidate.key))
+        : this.selectCandidates(strategy, allKeys, currentSize, maxSize, requiredSpace);
+      if (!options.candidates && !strategy.getCleanupPlan) {
+        for (const candidate of candidates) {
+          candidate.size = await this.adapter.getItemSize(candidate.key);
+        }
+      }
 
-      if (keysToCleanup.length === 0) {
+      if (candidates.length === 0) {
         if (this.config.debug) {
           console.log('[StorageCleaner] No keys to cleanup');
         }
-        return;
+        return this.finishCleanupReport(report, currentSize);
+      }
+
+      if (dryRun) {
+        report.keys = candidates.map(candidate => candidate.key);
+        report.entries = candidates;
+        this.finishCleanupReport(report, currentSize);
+        this.events.emit('cleanupPlanned', report);
+
+        if (this.config.debug) {
+          console.log(`[StorageCleaner] Dry run: would clean up ${report.keys.length} keys (${Utils.formatDataSize(report.bytesFreed)})`, candidates);
+        }
+        return report;
       }
 
       // 删除选中的键
-      for (const key of keysToCleanup) {
-        await this.adapter.removeItem(key);
+      for (const candidate of candidates) {
+        if (this.filterEvictableKeys([candidate.key], report.trigger).length === 0) {
+          report.vetoedKeys.push(candidate.key);
+          continue;
+        }
+
+        await this.adapter.removeItem(candidate.key);
+        report.keys.push(candidate.key);
+        report.entries.push(candidate);
       }
 
-      // 通知策略清理完成
-      this.strategy.cleanup(keysToCleanup);
+      // 在策略保存访问记录之前测量，避免记录本身的大小变化影响统计
+      const sizeAfterEviction = await measure();
 
-      // 更新统计信息
-      this.stats.cleanupCount++;
-      this.stats.lastCleanup = Utils.now();
-      this.updateStats();
+      if (report.keys.length > 0) {
+        // 通知策略清理完成
+        this.forgetKeys(report.keys, true);
+        this.events.emit('afterEvict', { keys: report.keys, trigger: report.trigger });
 
-      // if (this.config.debug) {
-      //   const newSize = await this.adapter.getStorageSize();
-      //   console.log(`[StorageCleaner] Cleaned up ${keysToCleanup.length} keys, freed ${Utils.formatBytes(currentSize - newSize)}`);
-      // }
+        // 更新统计信息
+        this.stats.cleanupCount++;
+        this.stats.lastCleanup = Utils.now();
+        if (namespace) {
+          this.namespaceCleanupCounts.set(namespace.name, (this.namespaceCleanupCounts.get(namespace.name) || 0) + 1);
+        }
+        this.updateStats();
+      }
+
+      this.finishCleanupReport(report, await measure(), sizeAfterEviction);
+
+      if (this.config.debug) {
+        console.log(`[StorageCleaner] Cleaned up ${report.keys.length} keys, freed ${Utils.formatBytes(report.bytesFreed)}`);
+      }
     } catch (error) {
       console.error('[StorageCleaner] Failed to cleanup:', error);
+      this.finishCleanupReport(report, report.sizeBefore);
+    }
+
+    return report;
+  }
+
+  /**
+   * 获取释放指定空间时按淘汰顺序排列的候选项，不删除任何数据
+   */
+  async getCleanupPlan(requiredSpace: number): Promise<ICleanupCandidate[]> {
+    await this.strategy.syncAccessRecords?.();
+
+    const allKeys = await this.adapter.getAllKeys();
+    const currentSize = await this.adapter.getStorageSize();
+
+    // maxSize 传 0，策略只会挑选刚好释放 requiredSpace 的键
+    const candidates = this.selectCandidates(this.strategy, allKeys, currentSize, 0, requiredSpace);
+    if (!this.strategy.getCleanupPlan) {
+      for (const candidate of candidates) {
+        candidate.size = await this.adapter.getItemSize(candidate.key);
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 淘汰指定的候选项，beforeEvict 仍然可以否决
+   */
+  async evict(
+    candidates: ICleanupCandidate[],
+    options: { trigger?: CleanupTrigger; dryRun?: boolean } = {}
+  ): Promise<ICleanupReport> {
+    return this.runExclusive(() => this.performCleanup(0, { ...options, candidates }));
+  }
+
+  /**
+   * 通过策略选出清理候选项
+   * 策略未实现 getCleanupPlan 时，根据 getKeysToCleanup 的结果补全信息
+   */
+  private selectCandidates(
+    strategy: ICleanupStrategy,
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number
+  ): ICleanupCandidate[] {
+    if (strategy.getCleanupPlan) {
+      return strategy.getCleanupPlan(allKeys, currentSize, maxSize, requiredSpace);
     }
+
+    return strategy
+      .getKeysToCleanup(allKeys, currentSize, maxSize, requiredSpace)
+      .map(key => this.toCandidate(key, strategy.getName(), `由 ${strategy.getName()} 策略选中`));
+  }
+
+  /**
+   * 创建清理候选项，同步适配器可以直接得到大小
+   */
+  private toCandidate(key: string, tier: string, reason: string): ICleanupCandidate {
+    const size = this.adapter.getItemSize(key);
+    return {
+      key,
+      size: typeof size === 'number' ? size : 0,
+      tier,
+      reason
+    };
+  }
+
+  /**
+   * 创建清理报告
+   */
+  private createCleanupReport(trigger: CleanupTrigger, dryRun: boolean): ICleanupReport {
+    return {
+      trigger,
+      dryRun,
+      keys: [],
+      entries: [],
+      vetoedKeys: [],
+      sizeBefore: 0,
+      sizeAfter: 0,
+      bytesFreed: 0,
+      startedAt: Utils.now(),
+      duration: 0
+    };
+  }
+
+  /**
+   * 完成清理报告，计算释放的空间和耗时
+   * @param sizeAfterEviction 删除完成后、后续写入前的存储大小，用于计算释放的空间
+   */
+  private finishCleanupReport(
+    report: ICleanupReport,
+    sizeAfter: number,
+    sizeAfterEviction: number = sizeAfter
+  ): ICleanupReport {
+    report.sizeAfter = sizeAfter;
+    report.bytesFreed = report.dryRun
+      ? report.entries.reduce((total, entry) => total + entry.size, 0)
+      : Math.max(0, report.sizeBefore - sizeAfterEviction);
+    report.duration = Utils.now() - report.startedAt;
+    return report;
+  }
+
+  /**
+   * 获取当前存储大小（字节）
+   */
+  async getStorageSize(): Promise<number> {
+    return this.adapter.getStorageSize();
+  }
+
+  /**
+   * 同步获取存储大小，异步适配器返回0
+   */
+  private getStorageSizeSync(): number {
+    const size = this.adapter.getStorageSize();
+    return typeof size === 'number' ? size : 0;
   }
 
   /**
    * 手动触发清理
    */
-  async manualCleanup(): Promise<void> {
-    await this.cleanup();
+  async manualCleanup(options: { dryRun?: boolean } = {}): Promise<ICleanupReport> {
+    return this.cleanup(0, options);
   }
 
   /**
@@ -303,11 +1198,92 @@ export class StorageCleaner {
       this.stats.totalSize = totalSize;
       this.stats.itemCount = allKeys.length;
       this.stats.usageRatio = totalSize / this.config.maxStorageSize;
+
+      if (this.config.namespaces?.length) {
+        this.stats.namespaces = await this.getNamespaceStats(allKeys);
+      }
     } catch (error) {
       console.warn('[StorageCleaner] Failed to update stats:', error);
     }
   }
 
+  /**
+   * 统计各命名空间的占用情况
+   */
+  private async getNamespaceStats(allKeys: string[]): Promise<Record<string, INamespaceStats>> {
+    const result: Record<string, INamespaceStats> = {};
+
+    for (const namespace of this.config.namespaces || []) {
+      const keys = this.getNamespaceKeys(allKeys, namespace);
+      const totalSize = await this.getKeysSize(keys);
+
+      result[namespace.name] = {
+        name: namespace.name,
+        prefix: namespace.prefix,
+        totalSize,
+        itemCount: keys.length,
+        maxSize: namespace.maxStorageSize,
+        usageRatio: totalSize / namespace.maxStorageSize,
+        cleanupCount: this.namespaceCleanupCounts.get(namespace.name) || 0
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * 重新估算存储配额，自动配额模式下同时更新 maxStorageSize
+   * @returns 估算的配额（字节），适配器不支持或无法估算时返回null
+   */
+  async refreshQuota(): Promise<number | null> {
+    try {
+      let quota = await this.adapter.estimateQuota?.();
+      const adapter = this.adapter;
+      if (!quota && this.config.quotaProbe && adapter instanceof WebStorageAdapter) {
+        // 探测会短暂写满存储，在跨标签页清理锁内进行，避免与其他标签页的清理交错
+        quota = await this.runExclusive(async () => adapter.probeQuota());
+      }
+      if (!quota) {
+        return null;
+      }
+
+      this.stats.quota = quota;
+      if (this.config.autoQuota) {
+        this.config.maxStorageSize = Math.floor(quota * (this.config.quotaRatio ?? 0.9));
+        this.stats.maxSize = this.config.maxStorageSize;
+      }
+
+      if (this.config.debug) {
+        console.log(`[StorageCleaner] Estimated quota: ${Utils.formatBytes(quota)}, max storage size: ${Utils.formatBytes(this.config.maxStorageSize)}`);
+      }
+
+      await this.updateStats();
+      return quota;
+    } catch (error) {
+      console.warn('[StorageCleaner] Failed to estimate quota:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 开启自动配额时立即估算一次，并定期重新估算
+   */
+  private setupAutoQuota(): void {
+    if (this.quotaTimer) {
+      clearInterval(this.quotaTimer);
+      this.quotaTimer = null;
+    }
+
+    if (!this.config.autoQuota) {
+      return;
+    }
+
+    this.refreshQuota();
+    if (this.config.quotaRefreshInterval) {
+      this.quotaTimer = setInterval(() => this.refreshQuota(), this.config.quotaRefreshInterval);
+    }
+  }
+
   /**
    * 获取统计信息
    */
@@ -328,6 +1304,33 @@ export class StorageCleaner {
   updateConfig(newConfig: Partial<IStorageCleanerConfig>): void {
     this.config = { ...this.config, ...newConfig };
 
+    // 演练模式需要同步到LRU策略，时间清理才会只生成计划
+    if (newConfig.dryRun !== undefined && this.strategy instanceof LRUStrategy) {
+      (this.strategy as any).config.dryRun = newConfig.dryRun;
+    }
+
+    // 键匹配规则同样同步到LRU策略，保证清理和插入判断一致
+    if (this.strategy instanceof LRUStrategy) {
+      if (newConfig.excludeKeys !== undefined) {
+        (this.strategy as any).config.excludeKeys = newConfig.excludeKeys;
+      }
+      if (newConfig.unimportantKeys !== undefined) {
+        (this.strategy as any).config.unimportantKeys = newConfig.unimportantKeys;
+      }
+      if ('scorer' in newConfig) {
+        (this.strategy as any).config.scorer = newConfig.scorer;
+      }
+      if (newConfig.priorityTiers !== undefined) {
+        (this.strategy as any).config.priorityTiers = newConfig.priorityTiers;
+      }
+    }
+
+    // 自动配额的开关、比例和刷新间隔变化时重新估算
+    if (newConfig.autoQuota !== undefined || newConfig.quotaRatio !== undefined ||
+        newConfig.quotaRefreshInterval !== undefined || newConfig.quotaProbe !== undefined) {
+      this.setupAutoQuota();
+    }
+
     if (this.config.debug) {
       console.log('[StorageCleaner] Config updated:', this.config);
     }
@@ -351,7 +1354,9 @@ export class StorageCleaner {
    * 设置清理策略
    */
   setStrategy(strategy: ICleanupStrategy): void {
+    this.strategy.setEvictionHooks?.(null);
     this.strategy = strategy;
+    this.bindStrategyHooks(strategy);
 
     if (this.config.debug) {
       console.log(`[StorageCleaner] Strategy changed to: ${strategy.getName()}`);
@@ -385,10 +1390,10 @@ export class StorageCleaner {
       }
 
       // 检查适配器可用性
-      if (this.adapter instanceof LocalStorageAdapter) {
-        const adapter = this.adapter as LocalStorageAdapter;
+      if (this.adapter instanceof WebStorageAdapter) {
+        const adapter = this.adapter as WebStorageAdapter;
         if (!adapter.isAvailable()) {
-          issues.push('localStorage is not available');
+          issues.push(`${adapter.getStorageName()} is not available`);
           recommendations.push('Check browser settings and available storage quota');
         }
       }
@@ -417,17 +1422,31 @@ export class StorageCleaner {
 
   /**
    * 手动触发基于时间的清理
+   * 演练模式下只返回计划，不删除任何数据
    */
-  triggerTimeBasedCleanup(): {
-    cleanedKeys: string[];
-    cleanedCount: number;
-  } | null {
-    if (this.strategy instanceof LRUStrategy) {
-      const result = (this.strategy as any).triggerTimeBasedCleanup();
-      this.updateStats();
-      return result;
+  async triggerTimeBasedCleanup(options: { dryRun?: boolean } = {}): Promise<ICleanupReport | null> {
+    if (!(this.strategy instanceof LRUStrategy)) {
+      return null;
     }
-    return null;
+
+    const strategy = this.strategy;
+    const dryRun = options.dryRun ?? this.config.dryRun ?? false;
+
+    return this.runExclusive(async () => {
+      await strategy.syncAccessRecords();
+
+      const report = this.createCleanupReport('time', dryRun);
+      report.sizeBefore = await this.adapter.getStorageSize();
+
+      const { cleanedKeys, candidates, vetoedKeys } = strategy.triggerTimeBasedCleanup({ dryRun });
+      report.keys = dryRun ? candidates.map(candidate => candidate.key) : cleanedKeys;
+      report.entries = candidates;
+      report.vetoedKeys = vetoedKeys;
+
+      this.finishCleanupReport(report, dryRun ? report.sizeBefore : await this.adapter.getStorageSize());
+      this.updateStats();
+      return report;
+    });
   }
 
   /**
@@ -617,9 +1636,14 @@ export class StorageCleaner {
   /**
    * 配置不重要的keys（智能插入会自动处理）
    */
-  configureUnimportantKeys(unimportantKeys: string[]): void {
+  configureUnimportantKeys(unimportantKeys: KeyPattern[]): void {
     this.config.unimportantKeys = unimportantKeys;
 
+    // 同步到LRU策略，使清理时的分层与智能插入使用同一份规则
+    if (this.strategy instanceof LRUStrategy) {
+      (this.strategy as any).config.unimportantKeys = unimportantKeys;
+    }
+
     if (this.config.debug) {
       console.log('[StorageCleaner] Unimportant keys configured:', {
         unimportantKeys: this.config.unimportantKeys,
@@ -668,14 +1692,11 @@ export class StorageCleaner {
     orphanedKeys: string[];
   } {
     if (this.strategy instanceof LRUStrategy) {
-      const beforeCount = Object.keys((this.strategy as any).accessRecords).length;
-      (this.strategy as any).cleanupOrphanedRecords();
-      const afterCount = Object.keys((this.strategy as any).accessRecords).length;
-
-      const cleanedCount = beforeCount - afterCount;
+      const orphanedKeys: string[] = (this.strategy as any).cleanupOrphanedRecords();
+      const cleanedCount = orphanedKeys.length;
       const result = {
         cleanedCount,
-        orphanedKeys: [] // 实际的孤立keys在cleanupOrphanedRecords方法中已经被删除
+        orphanedKeys
       };
 
       if (this.config.debug) {
@@ -693,6 +1714,18 @@ export class StorageCleaner {
    */
   destroy(): void {
     this.uninstallProxy();
+    if (this.quotaTimer) {
+      clearInterval(this.quotaTimer);
+      this.quotaTimer = null;
+    }
+    this.adapter.setQuotaExceededHandler?.(null);
+    this.strategy.setEvictionHooks?.(null);
+    this.strategy.destroy?.();
+    for (const strategy of this.getNamespaceStrategies()) {
+      strategy.setEvictionHooks?.(null);
+      strategy.destroy?.();
+    }
+    this.events.removeAllListeners();
 
     if (this.adapter instanceof IndexedDBAdapter) {
       this.adapter.close();
@@ -712,6 +1745,14 @@ export function createLocalStorageCleaner(config?: Partial<IStorageCleanerConfig
   return new StorageCleaner(adapter, config);
 }
 
+/**
+ * 创建sessionStorage清理器的便捷方法
+ */
+export function createSessionStorageCleaner(config?: Partial<IStorageCleanerConfig>): StorageCleaner {
+  const adapter = new SessionStorageAdapter();
+  return new StorageCleaner(adapter, config);
+}
+
 /**
  * 创建IndexedDB清理器的便捷方法
  */
@@ -722,4 +1763,16 @@ export function createIndexedDBCleaner(
 ): StorageCleaner {
   const adapter = new IndexedDBAdapter(dbName, storeName);
   return new StorageCleaner(adapter, config);
+}
+
+/**
+ * 创建内存清理器的便捷方法
+ * 不依赖浏览器环境，适用于Node和单元测试
+ */
+export function createMemoryStorageCleaner(
+  quota?: number,
+  config?: Partial<IStorageCleanerConfig>
+): StorageCleaner {
+  const adapter = new MemoryStorageAdapter(quota);
+  return new StorageCleaner(adapter, config);
 }
\ No newline at end of file
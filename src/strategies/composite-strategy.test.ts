@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CompositeStrategyEntry } from '../interfaces';
+import { MemoryStorageAdapter } from '../adapters';
+import { CompositeStrategy } from './composite-strategy';
+import { LRUStrategy } from './lru-strategy';
+
+const createAdapter = (items: Record<string, number>) => {
+  const adapter = new MemoryStorageAdapter();
+  for (const [key, length] of Object.entries(items)) {
+    adapter.setItem(key, 'x'.repeat(length));
+  }
+  return adapter;
+};
+
+describe('CompositeStrategy', () => {
+  it('chains entries and lets later entries make up the remaining space', () => {
+    const adapter = createAdapter({ temp_a: 100, cache_small: 100, cache_big: 300, user: 500 });
+    const strategy = new CompositeStrategy(adapter, {
+      entries: [
+        { name: 'temp', scorer: key => (key.startsWith('temp_') ? 1 : null) },
+        { name: 'cache-by-size', scorer: (key, { size }) => (key.startsWith('cache_') ? size : null) }
+      ]
+    });
+
+    // 临时数据只有106字节，剩余空间由缓存中最大的一项补足
+    const plan = strategy.getCleanupPlan(adapter.getAllKeys(), 1000, 0, 300);
+    expect(plan.map(({ key, tier }) => [key, tier])).toEqual([
+      ['temp_a', 'temp'],
+      ['cache_big', 'cache-by-size']
+    ]);
+  });
+
+  it('sums weighted ranks and breaks ties by key', () => {
+    const adapter = createAdapter({ a: 100, b: 200, c: 300 });
+    const keys = adapter.getAllKeys();
+    const entries = (sizeWeight: number): CompositeStrategyEntry[] => [
+      { name: 'size', weight: sizeWeight, scorer: (_, { size }) => size },
+      { name: 'name', scorer: key => ({ a: 3, b: 2, c: 1 })[key] }
+    ];
+
+    // 两项排名相反、权重相同时得分全部相同，按键名排序
+    const even = new CompositeStrategy(adapter, { mode: 'weighted', entries: entries(1) });
+    expect(even.getKeysToCleanup(keys, 1000, 0, 1000)).toEqual(['a', 'b', 'c']);
+
+    const bySize = new CompositeStrategy(adapter, { mode: 'weighted', entries: entries(2) });
+    expect(bySize.getKeysToCleanup(keys, 1000, 0, 1000)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('rejects child strategies that share an access records key', () => {
+    const adapter = new MemoryStorageAdapter();
+    const create = (ids: Array<string | undefined>) => {
+      const strategies = ids.map(id => new LRUStrategy(adapter, { maxAccessAge: Infinity, crossTabSync: false, id }));
+      try {
+        return new CompositeStrategy(adapter, { entries: strategies.map(strategy => ({ strategy })) });
+      } finally {
+        strategies.forEach(strategy => strategy.destroy());
+      }
+    };
+
+    expect(() => create([undefined, undefined])).toThrow('[Composite] Child strategies share access records key "__lru_access_records__"');
+    expect(() => create(['short', 'long'])).not.toThrow();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,373 @@
+import {
+  ICleanupStrategy,
+  IStorageAdapter,
+  IEvictionHooks,
+  ICleanupCandidate,
+  CompositeStrategyEntry,
+  KeyPattern,
+  IPinOptions
+} from '../interfaces';
+import { Utils } from '../utils';
+
+/**
+ * 组合清理策略
+ * - chain（默认）：按顺序向各组成项要候选，前面的项释放的空间不够时再由后面的项补充
+ * - weighted：各组成项按排名给键打分（0-1），乘以权重加总后统一排序
+ * 访问记录、清理、过期时间等调用会分发给所有子策略
+ */
+export class CompositeStrategy implements ICleanupStrategy {
+  private storageAdapter: IStorageAdapter;
+  private entries: CompositeStrategyEntry[];
+  private config: {
+    mode: 'chain' | 'weighted';
+    excludeKeys: KeyPattern[];
+    debug: boolean;
+  };
+
+  constructor(
+    storageAdapter: IStorageAdapter,
+    config: {
+      entries: CompositeStrategyEntry[];
+      mode?: 'chain' | 'weighted';
+      excludeKeys?: KeyPattern[];
+      debug?: boolean;
+    }
+  ) {
+    this.storageAdapter = storageAdapter;
+    this.entries = config.entries;
+    this.assertDistinctRecordsKeys();
+    this.config = {
+      mode: config.mode || 'chain',
+      excludeKeys: config.excludeKeys || [],
+      debug: config.debug || false
+    };
+  }
+
+  /**
+   * 记录访问，分发给所有子策略，任一子策略拒绝时返回false
+   */
+  recordAccess(key: string, value?: string): boolean {
+    let accepted = true;
+    for (const strategy of this.getStrategies()) {
+      accepted = strategy.recordAccess(key, value) && accepted;
+    }
+    return accepted;
+  }
+
+  /**
+   * 获取需要清理的键列表
+   */
+  getKeysToCleanup(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number = 0
+  ): string[] {
+    return this.getCleanupPlan(allKeys, currentSize, maxSize, requiredSpace).map(candidate => candidate.key);
+  }
+
+  /**
+   * 获取清理计划（包含每个键的大小、层级和原因）
+   */
+  getCleanupPlan(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number = 0
+  ): ICleanupCandidate[] {
+    const cleanableKeys = allKeys.filter(key =>
+      !Utils.isSystemKey(key) &&
+      !Utils.matchesKeyPattern(key, this.config.excludeKeys) &&
+      !this.isPinned(key)
+    );
+
+    // 与LRU策略一致：清理到80%容量，或者释放足够的空间
+    const spaceToFree = currentSize - Math.max(maxSize * 0.8, currentSize - requiredSpace);
+    if (spaceToFree <= 0) {
+      return [];
+    }
+
+    const candidates = this.config.mode === 'weighted'
+      ? this.getWeightedCandidates(cleanableKeys, currentSize, spaceToFree)
+      : this.getChainedCandidates(cleanableKeys, currentSize, maxSize, requiredSpace, spaceToFree);
+
+    if (this.config.debug) {
+      console.log(`[Composite] Selected ${candidates.length} keys in ${this.config.mode} mode`);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 清理指定的键，分发给所有子策略
+   */
+  cleanup(keys: string[], options?: { evicted?: boolean }): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.cleanup(keys, options);
+    }
+  }
+
+  /**
+   * 获取策略名称
+   */
+  getName(): string {
+    return 'Composite';
+  }
+
+  /**
+   * 设置键的过期时间
+   */
+  setExpiry(key: string, expiresAt: number | null): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.setExpiry?.(key, expiresAt);
+    }
+  }
+
+  /**
+   * 检查键是否已过期，任一子策略认为过期即为过期
+   */
+  isExpired(key: string): boolean {
+    return this.getStrategies().some(strategy => !!strategy.isExpired?.(key));
+  }
+
+  /**
+   * 设置淘汰钩子
+   */
+  setEvictionHooks(hooks: IEvictionHooks | null): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.setEvictionHooks?.(hooks);
+    }
+  }
+
+  /**
+   * 合并其他标签页持久化的访问记录
+   */
+  async syncAccessRecords(): Promise<void> {
+    await Promise.all(this.getStrategies().map(strategy => strategy.syncAccessRecords?.()));
+  }
+
+  /**
+   * 释放子策略占用的资源
+   */
+  destroy(): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.destroy?.();
+    }
+  }
+
+  /**
+   * 固定键，分发给所有子策略
+   */
+  pin(key: string, options?: IPinOptions): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.pin?.(key, options);
+    }
+  }
+
+  /**
+   * 取消固定键
+   */
+  unpin(key: string): void {
+    for (const strategy of this.getStrategies()) {
+      strategy.unpin?.(key);
+    }
+  }
+
+  /**
+   * 检查键是否被固定，任一子策略固定即为固定
+   */
+  isPinned(key: string): boolean {
+    return this.getStrategies().some(strategy => !!strategy.isPinned?.(key));
+  }
+
+  /**
+   * 获取所有被固定的键
+   */
+  getPinnedKeys(): string[] {
+    const keys = new Set<string>();
+    for (const strategy of this.getStrategies()) {
+      strategy.getPinnedKeys?.().forEach(key => keys.add(key));
+    }
+    return Array.from(keys);
+  }
+
+  /**
+   * 获取所有子策略
+   */
+  getStrategies(): ICleanupStrategy[] {
+    const strategies: ICleanupStrategy[] = [];
+    for (const entry of this.entries) {
+      if ('strategy' in entry) {
+        strategies.push(entry.strategy);
+      }
+    }
+    return strategies;
+  }
+
+  /**
+   * 同类的子策略默认把访问记录保存在同一个键中，会互相覆盖，需要通过 id 区分
+   */
+  private assertDistinctRecordsKeys(): void {
+    const owners = new Map<string, ICleanupStrategy>();
+
+    for (const strategy of this.getStrategies()) {
+      const recordsKey = (strategy as { getRecordsKey?: () => string }).getRecordsKey?.();
+      if (!recordsKey) {
+        continue;
+      }
+
+      const owner = owners.get(recordsKey);
+      if (owner && owner !== strategy) {
+        throw new Error(`[Composite] Child strategies share access records key "${recordsKey}", set a distinct id for each`);
+      }
+      owners.set(recordsKey, strategy);
+    }
+  }
+
+  /**
+   * 链式选择：按顺序合并各组成项的候选，已选中的键不会重复选择
+   */
+  private getChainedCandidates(
+    keys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number,
+    spaceToFree: number
+  ): ICleanupCandidate[] {
+    const candidates: ICleanupCandidate[] = [];
+    const selectedKeys = new Set<string>();
+    let freedSpace = 0;
+
+    for (let i = 0; i < this.entries.length && freedSpace < spaceToFree; i++) {
+      const remainingKeys = keys.filter(key => !selectedKeys.has(key));
+      const ranked = this.rankKeys(
+        this.entries[i],
+        i,
+        remainingKeys,
+        currentSize - freedSpace,
+        maxSize,
+        Math.max(0, requiredSpace - freedSpace)
+      );
+
+      for (const candidate of ranked) {
+        if (selectedKeys.has(candidate.key)) {
+          continue;
+        }
+
+        candidates.push(candidate);
+        selectedKeys.add(candidate.key);
+        freedSpace += candidate.size;
+
+        if (freedSpace >= spaceToFree) {
+          break;
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 加权选择：每个组成项给出完整排名，第一名得1分、之后线性递减，按权重加总后排序
+   * 分数相同时按键名排序，保证结果稳定
+   */
+  private getWeightedCandidates(keys: string[], currentSize: number, spaceToFree: number): ICleanupCandidate[] {
+    const scores = new Map<string, number>();
+    const sizes = new Map<string, number>();
+    const lastAccesses = new Map<string, number>();
+
+    this.entries.forEach((entry, index) => {
+      const weight = entry.weight ?? 1;
+      // 要求释放全部空间，让子策略给出所有键的完整排名
+      const ranked = this.rankKeys(entry, index, keys, currentSize, 0, currentSize);
+
+      ranked.forEach((candidate, rank) => {
+        const score = (ranked.length - rank) / ranked.length;
+        scores.set(candidate.key, (scores.get(candidate.key) || 0) + weight * score);
+        sizes.set(candidate.key, candidate.size);
+        if (candidate.lastAccess !== undefined) {
+          lastAccesses.set(candidate.key, Math.max(lastAccesses.get(candidate.key) ?? 0, candidate.lastAccess));
+        }
+      });
+    });
+
+    const sortedKeys = Array.from(scores.keys()).sort((a, b) => {
+      const scoreDiff = scores.get(b)! - scores.get(a)!;
+      if (scoreDiff !== 0) return scoreDiff;
+      return a < b ? -1 : a > b ? 1 : 0;
+    });
+
+    const candidates: ICleanupCandidate[] = [];
+    let freedSpace = 0;
+
+    for (const key of sortedKeys) {
+      const size = sizes.get(key) || 0;
+      candidates.push({
+        key,
+        size,
+        tier: 'weighted',
+        reason: `加权得分 ${scores.get(key)!.toFixed(3)}`,
+        lastAccess: lastAccesses.get(key)
+      });
+      freedSpace += size;
+
+      if (freedSpace >= spaceToFree) {
+        break;
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 获取单个组成项给出的候选（按清理顺序）
+   */
+  private rankKeys(
+    entry: CompositeStrategyEntry,
+    index: number,
+    keys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number
+  ): ICleanupCandidate[] {
+    if ('strategy' in entry) {
+      const { strategy } = entry;
+      if (strategy.getCleanupPlan) {
+        return strategy.getCleanupPlan(keys, currentSize, maxSize, requiredSpace);
+      }
+
+      const name = strategy.getName();
+      return strategy
+        .getKeysToCleanup(keys, currentSize, maxSize, requiredSpace)
+        .map(key => ({ key, size: this.getItemSize(key), tier: name, reason: `由 ${name} 策略选中` }));
+    }
+
+    const name = entry.name || `scorer-${index}`;
+    const now = Utils.now();
+    const scored: Array<{ key: string; size: number; score: number }> = [];
+
+    for (const key of keys) {
+      const size = this.getItemSize(key);
+      const score = entry.scorer(key, { size, now });
+      if (typeof score === 'number' && Number.isFinite(score)) {
+        scored.push({ key, size, score });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map(({ key, size, score }) => ({ key, size, tier: name, reason: `${name} 评分 ${score}` }));
+  }
+
+  /**
+   * 获取键的大小，异步适配器无法同步获取时按1KB估算（与LRU策略一致）
+   */
+  private getItemSize(key: string): number {
+    try {
+      const size = this.storageAdapter.getItemSize(key);
+      return typeof size === 'number' ? size : 1024;
+    } catch (error) {
+      return 1024;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { IAccessRecord } from '../interfaces';
+import { MemoryStorageAdapter } from '../adapters';
+import { GDSFStrategy } from './gdsf-strategy';
+
+// 测试需要访问的内部状态
+type GDSFInternals = {
+  ready: Promise<void>;
+  accessRecords: Record<string, IAccessRecord>;
+};
+
+const strategies: GDSFStrategy[] = [];
+
+const createStrategy = async (items: Record<string, string>) => {
+  const adapter = new MemoryStorageAdapter();
+  const strategy = new GDSFStrategy(adapter, { maxAccessAge: Infinity });
+  strategies.push(strategy);
+  await (strategy as unknown as GDSFInternals).ready;
+
+  for (const [key, value] of Object.entries(items)) {
+    adapter.setItem(key, value);
+    strategy.recordAccess(key, value);
+  }
+
+  return { adapter, strategy, internals: strategy as unknown as GDSFInternals };
+};
+
+afterEach(() => {
+  strategies.splice(0).forEach(strategy => strategy.destroy());
+});
+
+describe('GDSFStrategy', () => {
+  it('evicts rarely used large keys first and only as many as needed', async () => {
+    const { adapter, strategy } = await createStrategy({
+      large: 'x'.repeat(4000),
+      hot: 'x'.repeat(4000),
+      small: 'x'.repeat(10)
+    });
+    strategy.recordAccess('hot');
+    strategy.recordAccess('hot');
+
+    const plan = strategy.getCleanupPlan(adapter.getAllKeys(), 10000, 10000, 100);
+
+    expect(plan.map(candidate => candidate.key)).toEqual(['large']);
+  });
+
+  it('raises the inflation value only when keys are evicted', async () => {
+    const { strategy, internals } = await createStrategy({
+      removed: 'x'.repeat(100),
+      evicted: 'x'.repeat(100),
+      next: 'x'.repeat(100)
+    });
+
+    strategy.cleanup(['removed']);
+    strategy.recordAccess('next');
+    expect(internals.accessRecords.next.rank).toBe(0);
+
+    const evictedPriority = strategy.getPriority('evicted');
+    strategy.cleanup(['evicted'], { evicted: true });
+    strategy.recordAccess('next');
+    expect(internals.accessRecords.next.rank).toBe(evictedPriority);
+  });
+});
\ No newline at end of file
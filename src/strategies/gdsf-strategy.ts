@@ -0,0 +1,176 @@
+import { IAccessRecord, IStorageAdapter, ICleanupCandidate } from '../interfaces';
+import { LRUStrategy } from './lru-strategy';
+
+/**
+ * GDSF (GreedyDual-Size-Frequency) 清理策略
+ * 每个键的价值 H = L + 访问次数 × 成本 / 大小，清理时优先淘汰价值最低的键：
+ * 很少访问的大数据最先被清理，释放同样的空间需要删除的键更少。
+ * L 为膨胀值，每次淘汰后提升到被淘汰键的最大价值，使长期未访问的键逐渐失去优势（老化）
+ * 每个键访问时的 L 作为价值基准保存在访问记录的 rank 中，只有 L 单独保存
+ */
+export class GDSFStrategy extends LRUStrategy {
+  private getCost: (key: string, record: IAccessRecord) => number;
+  private stateKey: string;
+  private inflation = 0;
+
+  constructor(
+    storageAdapter: IStorageAdapter,
+    config: ConstructorParameters<typeof LRUStrategy>[1] & {
+      /**
+       * 重新获取数据的成本，默认所有键都为1
+       */
+      getCost?: (key: string, record: IAccessRecord) => number;
+    }
+  ) {
+    super(storageAdapter, config);
+    this.getCost = config.getCost || (() => 1);
+    this.stateKey = this.getStorageKey('state');
+
+    this.ready.then(() => this.loadState());
+  }
+
+  /**
+   * 获取策略名称
+   */
+  getName(): string {
+    return 'GDSF';
+  }
+
+  /**
+   * 记录访问，以当前膨胀值作为该键的价值基准
+   */
+  recordAccess(key: string, value?: string): boolean {
+    const result = super.recordAccess(key, value);
+
+    const record = this.accessRecords[key];
+    if (record) {
+      record.rank = this.inflation;
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取清理计划（包含每个键的大小、层级和原因）
+   * 按价值选出候选后，去掉不影响释放目标的高价值键，只删除必要的最少数据
+   */
+  getCleanupPlan(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number = 0
+  ): ICleanupCandidate[] {
+    const candidates = super.getCleanupPlan(allKeys, currentSize, maxSize, requiredSpace);
+    return this.pruneCandidates(candidates, this.getSpaceToFree(currentSize, maxSize, requiredSpace));
+  }
+
+  /**
+   * 清理指定的键，按策略淘汰时膨胀值提升到被淘汰键的最大价值
+   * 主动删除和过期删除不是替换决策，不影响膨胀值
+   */
+  cleanup(keys: string[], options: { evicted?: boolean } = {}): void {
+    const previousInflation = this.inflation;
+
+    if (options.evicted) {
+      for (const key of keys) {
+        if (this.accessRecords[key]) {
+          this.inflation = Math.max(this.inflation, this.getPriority(key));
+        }
+      }
+    }
+
+    super.cleanup(keys, options);
+
+    if (this.inflation !== previousInflation) {
+      this.saveState();
+    }
+  }
+
+  /**
+   * 获取键的当前价值，没有访问记录时返回0
+   */
+  getPriority(key: string): number {
+    const record = this.accessRecords[key];
+    if (!record) {
+      return 0;
+    }
+
+    const base = record.rank ?? this.inflation;
+    return base + record.accessCount * this.getCost(key, record) / Math.max(record.size, 1);
+  }
+
+  /**
+   * 按价值从低到高排序，价值相同时越久未访问越先清理
+   */
+  protected sortKeysForEviction(keys: string[]): string[] {
+    const priorities = new Map(keys.map(key => [key, this.getPriority(key)]));
+
+    return keys.sort((a, b) => {
+      const priorityDiff = priorities.get(a)! - priorities.get(b)!;
+      if (priorityDiff !== 0) return priorityDiff;
+
+      return (this.accessRecords[a]?.lastAccess || 0) - (this.accessRecords[b]?.lastAccess || 0);
+    });
+  }
+
+  /**
+   * 按淘汰顺序选中重要数据时的原因说明
+   */
+  protected getEvictionReason(key: string): string {
+    return `访问少且占用空间大，价值最低（H=${this.getPriority(key).toPrecision(3)}）`;
+  }
+
+  /**
+   * 从后往前去掉按价值选中、但去掉后仍能满足释放目标的键
+   * 已过期和不重要数据层的候选保持不变
+   */
+  private pruneCandidates(candidates: ICleanupCandidate[], spaceToFree: number): ICleanupCandidate[] {
+    const tier = this.getName().toLowerCase();
+    let freedSpace = candidates.reduce((total, candidate) => total + candidate.size, 0);
+    const pruned = new Set<ICleanupCandidate>();
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const candidate = candidates[i];
+      if (candidate.tier === tier && freedSpace - candidate.size >= spaceToFree) {
+        freedSpace -= candidate.size;
+        pruned.add(candidate);
+      }
+    }
+
+    if (this.config.debug && pruned.size > 0) {
+      console.log(`[GDSF] Pruned ${pruned.size} unnecessary candidates`);
+    }
+
+    return candidates.filter(candidate => !pruned.has(candidate));
+  }
+
+  /**
+   * 加载膨胀值
+   */
+  private async loadState(): Promise<void> {
+    try {
+      const data = await this.metadataStore.getItem(this.stateKey);
+      if (!data) {
+        return;
+      }
+
+      const state = JSON.parse(data);
+      if (typeof state.l === 'number') {
+        this.inflation = Math.max(this.inflation, state.l);
+      }
+    } catch (error) {
+      console.warn('[GDSF] Failed to load state:', error);
+    }
+  }
+
+  /**
+   * 保存膨胀值
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await this.metadataStore.setItem(this.stateKey, JSON.stringify({ l: this.inflation }));
+    } catch (error) {
+      console.warn('[GDSF] Failed to save state:', error);
+    }
+  }
+}
\ No newline at end of file
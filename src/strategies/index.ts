@@ -1 +1,5 @@
-export { LRUStrategy } from './lru-strategy';
\ No newline at end of file
+export { LRUStrategy } from './lru-strategy';
+export { LFUStrategy } from './lfu-strategy';
+export { SLRUStrategy } from './slru-strategy';
+export { GDSFStrategy } from './gdsf-strategy';
+export { CompositeStrategy } from './composite-strategy';
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IAccessRecord } from '../interfaces';
+import { MemoryStorageAdapter } from '../adapters';
+import { Utils } from '../utils';
+import { LFUStrategy } from './lfu-strategy';
+
+const NOW = 1700000000000;
+const DAY = 24 * 60 * 60 * 1000;
+
+// 测试需要访问的内部状态
+type LFUInternals = {
+  ready: Promise<void>;
+  accessRecords: Record<string, IAccessRecord>;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('LFUStrategy', () => {
+  it('evicts the least frequently used keys first', async () => {
+    vi.spyOn(Utils, 'now').mockReturnValue(NOW);
+    const adapter = new MemoryStorageAdapter();
+    const strategy = new LFUStrategy(adapter, { maxAccessAge: Infinity });
+    await (strategy as unknown as LFUInternals).ready;
+
+    for (const key of ['rare', 'frequent']) {
+      adapter.setItem(key, 'x'.repeat(100));
+      strategy.recordAccess(key, 'x'.repeat(100));
+    }
+    strategy.recordAccess('frequent');
+
+    const plan = strategy.getCleanupPlan(adapter.getAllKeys(), 1000, 1000, 100);
+    expect(plan.map(candidate => candidate.key)).toEqual(['rare']);
+
+    strategy.destroy();
+  });
+
+  it('catches up on decay periods missed while offline from the records epoch', async () => {
+    vi.spyOn(Utils, 'now').mockReturnValue(NOW);
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('config', 'value');
+
+    const { compressed } = Utils.compressAccessRecords(
+      { config: { lastAccess: NOW - 2 * DAY, accessCount: 8, size: 1024 } },
+      { epoch: NOW - 2 * DAY }
+    );
+    adapter.setItem('__lfu_access_records__', Utils.wrapWithChecksum(compressed, 0));
+
+    const strategy = new LFUStrategy(adapter, { maxAccessAge: Infinity, decayInterval: DAY });
+    const internals = strategy as unknown as LFUInternals;
+    await internals.ready;
+    await Promise.resolve();
+
+    expect(internals.accessRecords.config.accessCount).toBe(2);
+    expect(adapter.getAllKeys().filter(key => key.includes('decay'))).toEqual([]);
+
+    strategy.destroy();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { IStorageAdapter, ICleanupCandidate, IAccessRecord } from '../interfaces';
+import { Utils } from '../utils';
+import { LRUStrategy } from './lru-strategy';
+
+/**
+ * LFU (Least Frequently Used) 清理策略
+ * 按访问次数淘汰，访问次数按周期减半（老化），避免过去的热点数据长期占用空间
+ * 访问记录的持久化、压缩和排除规则与LRU策略一致
+ */
+export class LFUStrategy extends LRUStrategy {
+  private decayInterval: number;
+  private lastDecayAt: number;
+
+  constructor(
+    storageAdapter: IStorageAdapter,
+    config: ConstructorParameters<typeof LRUStrategy>[1] & {
+      /**
+       * 访问次数减半的周期（毫秒），默认1天
+       */
+      decayInterval?: number;
+    }
+  ) {
+    super(storageAdapter, config);
+    this.decayInterval = config.decayInterval || 24 * 60 * 60 * 1000;
+    this.lastDecayAt = Utils.now();
+
+    // 访问记录加载完成后再衰减，保证离线期间错过的衰减能补上
+    this.ready.then(() => this.applyDecay());
+  }
+
+  /**
+   * 获取策略名称
+   */
+  getName(): string {
+    return 'LFU';
+  }
+
+  /**
+   * 记录访问
+   */
+  recordAccess(key: string, value?: string): boolean {
+    this.applyDecay();
+    return super.recordAccess(key, value);
+  }
+
+  /**
+   * 获取清理计划（包含每个键的大小、层级和原因）
+   */
+  getCleanupPlan(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number = 0
+  ): ICleanupCandidate[] {
+    this.applyDecay();
+    return super.getCleanupPlan(allKeys, currentSize, maxSize, requiredSpace);
+  }
+
+  /**
+   * 按LFU算法排序键：访问次数越少越先清理，次数相同时越久未访问越先清理
+   */
+  protected sortKeysForEviction(keys: string[]): string[] {
+    return keys.sort((a, b) => {
+      const recordA = this.accessRecords[a];
+      const recordB = this.accessRecords[b];
+
+      // 没有访问记录的键优先清理
+      if (!recordA && !recordB) return 0;
+      if (!recordA) return -1;
+      if (!recordB) return 1;
+
+      const countDiff = recordA.accessCount - recordB.accessCount;
+      if (countDiff !== 0) return countDiff;
+
+      return recordA.lastAccess - recordB.lastAccess;
+    });
+  }
+
+  /**
+   * 按淘汰顺序选中重要数据时的原因说明
+   */
+  protected getEvictionReason(): string {
+    return '访问频率最低';
+  }
+
+  /**
+   * 访问记录中保存上次衰减的时间，衰减进度只以访问记录为准
+   */
+  protected getRecordsEpoch(): number {
+    return this.lastDecayAt;
+  }
+
+  /**
+   * 加载时以记录自身的衰减进度为准，离线期间错过的衰减在加载完成后补上
+   */
+  protected restoreRecordsEpoch(epoch: number): void {
+    if (epoch <= Utils.now()) {
+      this.lastDecayAt = epoch;
+    }
+  }
+
+  /**
+   * 合并前把两边的访问次数对齐到同一衰减进度
+   * 否则按较大值合并时，未衰减的旧次数会覆盖已衰减的次数
+   */
+  protected adjustPersistedRecords(records: Record<string, IAccessRecord>, epoch: number | null): void {
+    if (epoch === null) {
+      return;
+    }
+
+    if (epoch < this.lastDecayAt) {
+      this.decayCounts(records, Math.floor((this.lastDecayAt - epoch) / this.decayInterval));
+    } else if (epoch > this.lastDecayAt) {
+      // 其他标签页已先衰减，本页跟上同一进度
+      this.decayCounts(this.accessRecords, Math.floor((epoch - this.lastDecayAt) / this.decayInterval));
+      this.lastDecayAt = epoch;
+    }
+  }
+
+  /**
+   * 按经过的周期数衰减所有访问次数
+   */
+  private applyDecay(): void {
+    const periods = Math.floor((Utils.now() - this.lastDecayAt) / this.decayInterval);
+    if (periods <= 0) {
+      return;
+    }
+
+    this.decayCounts(this.accessRecords, periods);
+    this.lastDecayAt += periods * this.decayInterval;
+    this.saveAccessRecordsDebounced();
+
+    if (this.config.debug) {
+      console.log(`[LFU] Decayed access counts by ${periods} period(s)`);
+    }
+  }
+
+  /**
+   * 访问次数按周期数减半
+   * 访问次数最少保留为1，与访问记录的校验规则一致
+   */
+  private decayCounts(records: Record<string, IAccessRecord>, periods: number): void {
+    if (periods <= 0) {
+      return;
+    }
+
+    // 超过30个周期后所有次数都已衰减到1，避免除数溢出
+    const divisor = Math.pow(2, Math.min(periods, 30));
+    for (const record of Object.values(records)) {
+      record.accessCount = Math.max(1, Math.floor(record.accessCount / divisor));
+    }
+  }
+}
\ No newline at end of file
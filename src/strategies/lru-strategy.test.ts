@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IAccessRecord } from '../interfaces';
+import { MemoryStorageAdapter } from '../adapters';
+import { Utils } from '../utils';
+import { LRUStrategy } from './lru-strategy';
+
+const NOW = 1700000000000;
+
+// 测试需要访问的内部状态
+type LRUInternals = {
+  ready: Promise<void>;
+  accessRecords: Record<string, IAccessRecord>;
+  saveAccessRecords(): Promise<void>;
+};
+
+describe('LRUStrategy eviction', () => {
+  it('evicts the least recently used keys until enough space is freed', async () => {
+    let now = NOW;
+    vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+
+    const adapter = new MemoryStorageAdapter();
+    const strategy = new LRUStrategy(adapter, { maxAccessAge: Infinity });
+    await (strategy as unknown as LRUInternals).ready;
+
+    for (const key of ['oldest', 'older', 'newest']) {
+      adapter.setItem(key, 'x'.repeat(100));
+      strategy.recordAccess(key, 'x'.repeat(100));
+    }
+    // 重新访问后 oldest 变为最近使用
+    strategy.recordAccess('oldest');
+
+    expect(strategy.getKeysToCleanup(adapter.getAllKeys(), 1000, 1000, 150)).toEqual(['older', 'newest']);
+
+    strategy.destroy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('LRUStrategy priority tiers', () => {
+  it('evicts tier by tier and never selects critical keys', async () => {
+    let now = NOW;
+    vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+
+    const adapter = new MemoryStorageAdapter();
+    const strategy = new LRUStrategy(adapter, {
+      maxAccessAge: Infinity,
+      crossTabSync: false,
+      priorityTiers: {
+        critical: ['auth_*'],
+        low: ['list_cache_*'],
+        disposable: [/^tmp_/]
+      }
+    });
+    await (strategy as unknown as LRUInternals).ready;
+
+    // 写入顺序与清理顺序相反，确认层级优先于访问时间
+    const items: Array<[string, number]> = [
+      ['profile', 100],
+      ['list_cache_small', 100],
+      ['list_cache_big', 6000],
+      ['tmp_upload', 100],
+      ['auth_token', 100],
+      ['session', 100]
+    ];
+    for (const [key, length] of items) {
+      adapter.setItem(key, 'x'.repeat(length));
+      strategy.recordAccess(key, 'x'.repeat(length));
+    }
+    strategy.setExpiry('session', NOW);
+
+    const plan = strategy.getCleanupPlan(adapter.getAllKeys(), 100000, 0, 100000);
+    expect(plan.map(({ key, tier }) => [key, tier])).toEqual([
+      ['session', 'expired'],
+      ['tmp_upload', 'disposable'],
+      ['list_cache_big', 'unimportant-large'],
+      ['list_cache_small', 'unimportant'],
+      ['profile', 'lru']
+    ]);
+
+    strategy.destroy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('LRUStrategy scorer', () => {
+  it('evicts and truncates records by the configured score', async () => {
+    let now = NOW;
+    vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+
+    const adapter = new MemoryStorageAdapter();
+    const strategy = new LRUStrategy(adapter, {
+      maxAccessAge: Infinity,
+      crossTabSync: false,
+      scorer: (_, record) => record.size
+    });
+    const internals = strategy as unknown as LRUInternals;
+    await internals.ready;
+
+    for (const [key, size] of [['big', 300], ['small', 100], ['medium', 200]] as const) {
+      adapter.setItem(key, 'x'.repeat(size));
+      strategy.recordAccess(key, 'x'.repeat(size));
+    }
+    // 最近访问不影响评分，大数据仍然优先清理
+    strategy.recordAccess('big');
+
+    expect(strategy.getKeysToCleanup(adapter.getAllKeys(), 1000, 500, 400)).toEqual(['big', 'medium']);
+
+    // 超出保存数量时保留评分最低的记录
+    await internals.saveAccessRecords(1);
+    const saved = adapter.getItem('__lru_access_records__') ?? adapter.getItem('__lru_access_records_b__');
+    const slot = Utils.unwrapChecksum(saved!);
+    expect(Object.keys(Utils.decompressAccessRecords(slot!.payload))).toEqual(['small']);
+
+    strategy.destroy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('LRUStrategy frequency sketch', () => {
+  it('restores approximate records for keys beyond maxRecords after reload', async () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    let now = Date.now() - 2 * DAY;
+    vi.spyOn(Utils, 'now').mockImplementation(() => now);
+
+    const adapter = new MemoryStorageAdapter();
+    const config = { maxAccessAge: Infinity, crossTabSync: false, maxRecords: 1, frequencySketch: true };
+    const strategy = new LRUStrategy(adapter, config);
+    const internals = strategy as unknown as LRUInternals;
+    await internals.ready;
+
+    adapter.setItem('hot', 'value');
+    for (let i = 0; i < 3; i++) {
+      strategy.recordAccess('hot', 'value');
+    }
+    now += 2 * DAY;
+    adapter.setItem('recent', 'value');
+    strategy.recordAccess('recent', 'value');
+
+    // 只保存最近访问的一条完整记录
+    await internals.saveAccessRecords();
+    strategy.destroy();
+
+    const reloaded = new LRUStrategy(adapter, config);
+    const reloadedInternals = reloaded as unknown as LRUInternals;
+    await reloadedInternals.ready;
+
+    // 还原的日期取访问当天的结束时间，不会早于实际访问
+    const restored = reloadedInternals.accessRecords.hot;
+    expect(restored.accessCount).toBe(3);
+    expect(restored.lastAccess).toBeGreaterThanOrEqual(now - 2 * DAY);
+    expect(restored.lastAccess).toBeLessThan(now - DAY);
+    expect(reloaded.estimateFrequency('hot')).toBe(3);
+
+    reloaded.destroy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('LRUStrategy access record slots', () => {
+  const good = Utils.compressAccessRecords({
+    user_profile: { lastAccess: NOW, accessCount: 7, size: 1024 }
+  }).compressed;
+  const newerVersion = JSON.stringify({ v: 99, t: 0, k: [], b: '' });
+
+  it('falls back to the other slot when the newest slot cannot be decoded', async () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('user_profile', 'profile');
+    adapter.setItem('__lru_access_records__', Utils.wrapWithChecksum(good, 2));
+    adapter.setItem('__lru_access_records_b__', Utils.wrapWithChecksum('{"v":3,', 3));
+
+    const strategy = new LRUStrategy(adapter, { maxAccessAge: Infinity, crossTabSync: false });
+    const internals = strategy as unknown as LRUInternals;
+    await internals.ready;
+
+    expect(internals.accessRecords.user_profile).toMatchObject({ lastAccess: NOW, accessCount: 7 });
+
+    // 下一次保存写入A槽位，内容是回退后的完好记录
+    await internals.saveAccessRecords();
+    const slot = Utils.unwrapChecksum(adapter.getItem('__lru_access_records__')!);
+    expect(slot?.sequence).toBe(4);
+    expect(Utils.decompressAccessRecords(slot!.payload).user_profile).toMatchObject({ accessCount: 7 });
+
+    strategy.destroy();
+  });
+
+  it('reads the older slot but never overwrites records written by a newer version', async () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('user_profile', 'profile');
+    adapter.setItem('__lru_access_records__', Utils.wrapWithChecksum(good, 2));
+    adapter.setItem('__lru_access_records_b__', Utils.wrapWithChecksum(newerVersion, 3));
+    const before = [adapter.getItem('__lru_access_records__'), adapter.getItem('__lru_access_records_b__')];
+
+    const strategy = new LRUStrategy(adapter, { maxAccessAge: Infinity, crossTabSync: false });
+    const internals = strategy as unknown as LRUInternals;
+    await internals.ready;
+
+    expect(internals.accessRecords.user_profile).toMatchObject({ lastAccess: NOW, accessCount: 7 });
+
+    strategy.recordAccess('user_profile');
+    await internals.saveAccessRecords();
+    await strategy.downgradeAccessRecords(2);
+    expect([adapter.getItem('__lru_access_records__'), adapter.getItem('__lru_access_records_b__')]).toEqual(before);
+
+    strategy.destroy();
+  });
+
+  it('starts from existing data without rebuilding when no slot is readable by this version', async () => {
+    const startedAt = Date.now();
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem('user_profile', 'profile');
+    adapter.setItem('__lru_access_records_b__', Utils.wrapWithChecksum(newerVersion, 3));
+
+    const strategy = new LRUStrategy(adapter, { maxAccessAge: Infinity, crossTabSync: false });
+    const internals = strategy as unknown as LRUInternals;
+    await internals.ready;
+
+    // 存量数据以当前时间初始化，而不是重建时的随机访问时间
+    expect(internals.accessRecords.user_profile.lastAccess).toBeGreaterThanOrEqual(startedAt);
+    await internals.saveAccessRecords();
+    expect(adapter.getItem('__lru_access_records__')).toBeNull();
+    expect(adapter.getItem('__lru_access_records_b__')).toBe(Utils.wrapWithChecksum(newerVersion, 3));
+
+    strategy.destroy();
+  });
+});
\ No newline at end of file
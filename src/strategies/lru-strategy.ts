@@ -1,37 +1,112 @@
-import { ICleanupStrategy, IAccessRecord, IStorageAdapter } from '../interfaces';
-import { Utils } from '../utils';
+import {
+  ICleanupStrategy,
+  IAccessRecord,
+  IStorageAdapter,
+  IEvictionHooks,
+  ICleanupCandidate,
+  KeyPattern,
+  EvictionScorer,
+  IScoringContext,
+  PriorityTier,
+  PriorityTierPatterns,
+  IPinOptions,
+  IMetadataStore
+} from '../interfaces';
+import { Utils, FrequencySketch } from '../utils';
+import { AdapterMetadataStore } from '../metadata';
+import { WebStorageAdapter, IndexedDBAdapter, MemoryStorageAdapter } from '../adapters';
 
 /**
  * LRU (Least Recently Used) 清理策略
  */
 export class LRUStrategy implements ICleanupStrategy {
-  private accessRecords: Record<string, IAccessRecord> = {};
-  private storageAdapter: IStorageAdapter;
-  private config: {
+  protected accessRecords: Record<string, IAccessRecord> = {};
+  protected storageAdapter: IStorageAdapter;
+  protected metadataStore: IMetadataStore;
+  protected config: {
     maxAccessAge: number;
-    excludeKeys: string[];
+    excludeKeys: KeyPattern[];
     debug: boolean;
     enableTimeBasedCleanup: boolean;
     timeCleanupThreshold: number;
     cleanupOnInsert: boolean;
-    unimportantKeys: string[];
+    unimportantKeys: KeyPattern[];
+    dryRun: boolean;
+    crossTabSync: boolean;
+    scorer?: EvictionScorer;
+    priorityTiers: PriorityTierPatterns;
+    keyPrefix: string;
+    maxRecords: number;
+    id: string;
   };
   private accessRecordsKey: string;
+  private accessRecordsBackupKey: string;
+  private recordsSequence = 0;
+  private recordsReadOnly = false;
   private debugRecordsKey: string;
+  private evictionHooks: IEvictionHooks | null = null;
+  private syncChannel: BroadcastChannel | null = null;
+  private pinnedKeys: Set<string> = new Set();
+  private sessionPinnedKeys: Set<string> = new Set();
+  private unpinnedKeys: Set<string> = new Set();
+  private detachedExpiries: Map<string, number> = new Map();
+  private metadataScope: string;
+  private sketch: FrequencySketch | null = null;
+  private timeCleanupScheduled = false;
+
+  /**
+   * 初始化完成（访问记录加载完毕）
+   */
+  protected ready: Promise<void>;
 
   constructor(
     storageAdapter: IStorageAdapter,
     config: {
       maxAccessAge: number;
-      excludeKeys?: string[];
+      excludeKeys?: KeyPattern[];
       debug?: boolean;
       enableTimeBasedCleanup?: boolean;
       timeCleanupThreshold?: number;
       cleanupOnInsert?: boolean;
-      unimportantKeys?: string[];
+      unimportantKeys?: KeyPattern[];
+      dryRun?: boolean;
+      crossTabSync?: boolean;
+      /**
+       * 淘汰评分函数，分数越高越先被清理
+       * 同时用于淘汰顺序、getCleanupCandidates 和保存访问记录时超出数量限制的取舍
+       */
+      scorer?: EvictionScorer;
+      /**
+       * 按键匹配规则划分优先级层级，critical 层的键不会被自动清理
+       */
+      priorityTiers?: PriorityTierPatterns;
+      /**
+       * 只管理以该前缀开头的键，访问记录也单独保存（用于命名空间）
+       */
+      keyPrefix?: string;
+      /**
+       * 访问记录的存储位置，默认保存在被管理的存储中
+       */
+      metadataStore?: IMetadataStore;
+      /**
+       * 持久化的完整访问记录数量上限，默认2000，超出时保留评分最低（最重要）的记录
+       */
+      maxRecords?: number;
+      /**
+       * 开启频率草图：固定大小地估算所有键的访问次数和最近访问日期，
+       * 超出 maxRecords 的键重新加载后仍有近似的访问信息
+       */
+      frequencySketch?: boolean | { width?: number; depth?: number };
+      /**
+       * 策略实例标识，同一位置保存多个同类策略的访问记录时（如组合策略的子策略）用于区分
+       */
+      id?: string;
     }
   ) {
     this.storageAdapter = storageAdapter;
+    this.metadataStore = config.metadataStore || new AdapterMetadataStore(storageAdapter);
+    // 外部元数据存储可能被多个清理器共享，保存键按被管理的存储区分
+    this.metadataScope = config.metadataStore ? LRUStrategy.getAdapterScope(storageAdapter) : '';
     this.config = {
       maxAccessAge: config.maxAccessAge,
       excludeKeys: config.excludeKeys || [],
@@ -39,13 +114,30 @@ export class LRUStrategy implements ICleanupStrategy {
       enableTimeBasedCleanup: config.enableTimeBasedCleanup || false,
       timeCleanupThreshold: config.timeCleanupThreshold || 7, // 默认7天
       cleanupOnInsert: config.cleanupOnInsert !== false, // 默认启用
-      unimportantKeys: config.unimportantKeys || []
+      unimportantKeys: config.unimportantKeys || [],
+      dryRun: config.dryRun || false,
+      crossTabSync: config.crossTabSync || false,
+      scorer: config.scorer,
+      priorityTiers: config.priorityTiers || {},
+      keyPrefix: config.keyPrefix || '',
+      maxRecords: config.maxRecords || 2000,
+      id: config.id || ''
     };
-    this.accessRecordsKey = Utils.generateStorageKey('lru', 'access_records');
-    this.debugRecordsKey = Utils.generateStorageKey('lru', 'debug_records');
+    this.accessRecordsKey = this.getStorageKey('access_records');
+    this.accessRecordsBackupKey = this.getStorageKey('access_records_b');
+    this.debugRecordsKey = this.getStorageKey('debug_records');
+
+    if (config.frequencySketch) {
+      const options = typeof config.frequencySketch === 'object' ? config.frequencySketch : {};
+      this.sketch = new FrequencySketch(options.width, options.depth);
+    }
+
+    if (this.config.crossTabSync) {
+      this.setupCrossTabSync();
+    }
 
     // 异步初始化
-    this.initialize();
+    this.ready = this.initialize();
   }
 
   /**
@@ -64,12 +156,6 @@ export class LRUStrategy implements ICleanupStrategy {
     } catch (error) {
       console.error('[LRU] Failed to initialize strategy:', error);
 
-      // 检查是否是存储配额超限错误
-      if (this.isQuotaExceededError(error)) {
-        console.warn('[LRU] Storage quota exceeded during initialization, clearing all storage');
-        await this.clearAllStorage();
-      }
-
       // 确保有一个空的访问记录对象
       this.accessRecords = {};
     }
@@ -78,8 +164,9 @@ export class LRUStrategy implements ICleanupStrategy {
   /**
    * 清理孤立的访问记录
    * 删除records中存在但storage中不存在的key记录
+   * @returns 被清理的孤立记录键
    */
-  private cleanupOrphanedRecords(): void {
+  private cleanupOrphanedRecords(): string[] {
     try {
       const allKeys = this.getAllStorageKeys();
       const allKeysSet = new Set(allKeys);
@@ -103,6 +190,12 @@ export class LRUStrategy implements ICleanupStrategy {
         }
       }
 
+      for (const key of Array.from(this.detachedExpiries.keys())) {
+        if (!allKeysSet.has(key)) {
+          this.detachedExpiries.delete(key);
+        }
+      }
+
       if (cleanedCount > 0) {
         // 保存更新后的访问记录
         this.saveAccessRecordsDebounced();
@@ -117,8 +210,11 @@ export class LRUStrategy implements ICleanupStrategy {
           }
         }
       }
+
+      return orphanedKeys;
     } catch (error) {
       console.error('[LRU] Failed to cleanup orphaned records:', error);
+      return [];
     }
   }
 
@@ -126,13 +222,14 @@ export class LRUStrategy implements ICleanupStrategy {
    * 记录访问
    */
   recordAccess(key: string, value?: string): boolean {
-    // 跳过系统键和排除的键
-    if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+    // 跳过系统键、排除的键和不归本策略管理的键
+    if (Utils.isSystemKey(key) || this.isExcludedKey(key) || !this.isManagedKey(key)) {
       return true;
     }
 
     const now = Utils.now();
     const existing = this.accessRecords[key];
+    this.sketch?.record(key, now);
 
     if (existing) {
       existing.lastAccess = now;
@@ -147,11 +244,18 @@ export class LRUStrategy implements ICleanupStrategy {
         accessCount: 1,
         size: value ? Utils.estimateDataSize(value) : 0
       };
+
+      // 之前单独保存的过期时间并入新记录
+      const expiresAt = this.detachedExpiries.get(key);
+      if (expiresAt !== undefined) {
+        this.accessRecords[key].expiresAt = expiresAt;
+        this.detachedExpiries.delete(key);
+      }
     }
 
     // 如果启用了基于时间的清理且是插入操作，触发时间清理
     if (this.config.enableTimeBasedCleanup && this.config.cleanupOnInsert && !existing) {
-      this.performTimeBasedCleanup();
+      this.scheduleTimeBasedCleanup();
     }
 
     // 异步保存访问记录，避免阻塞主线程
@@ -169,22 +273,31 @@ export class LRUStrategy implements ICleanupStrategy {
     maxSize: number,
     requiredSpace: number = 0
   ): string[] {
+    return this.getCleanupPlan(allKeys, currentSize, maxSize, requiredSpace).map(candidate => candidate.key);
+  }
+
+  /**
+   * 获取清理计划（包含每个键的大小、层级和原因）
+   */
+  getCleanupPlan(
+    allKeys: string[],
+    currentSize: number,
+    maxSize: number,
+    requiredSpace: number = 0
+  ): ICleanupCandidate[] {
     // 清理过期的访问记录
     this.cleanupExpiredRecords();
 
-    // 过滤出可以清理的键
+    // 过滤出可以清理的键，critical 层和固定的键不参与自动清理
     const cleanableKeys = allKeys.filter(key =>
       !Utils.isSystemKey(key) &&
-      !this.config.excludeKeys.includes(key)
-    );
-
-    // 计算需要释放的空间
-    const targetSize = Math.max(
-      maxSize * 0.8, // 清理到80%容量
-      currentSize - requiredSpace // 或者释放足够的空间
+      this.isManagedKey(key) &&
+      !this.isExcludedKey(key) &&
+      !this.isPinned(key) &&
+      this.getPriorityTier(key) !== 'critical'
     );
 
-    const spaceToFree = currentSize - targetSize;
+    const spaceToFree = this.getSpaceToFree(currentSize, maxSize, requiredSpace);
 
     if (spaceToFree <= 0) {
       return [];
@@ -194,114 +307,137 @@ export class LRUStrategy implements ICleanupStrategy {
     this.updateKeySizesSync(cleanableKeys);
 
     // 分层清理策略
-    const keysToCleanup = this.getLayeredCleanupKeys(cleanableKeys, spaceToFree);
-    // const freedSpace = keysToCleanup.reduce((total, key) => {
-    //   const record = this.accessRecords[key];
-    //   return total + (record ? record.size : 0);
-    // }, 0);
+    return this.getLayeredCleanupCandidates(cleanableKeys, spaceToFree);
+  }
 
-    // if (this.config.debug) {
-    //   console.log(`[LRU] Selected ${keysToCleanup.length} keys for cleanup, will free ${Utils.formatDataSize(freedSpace)}`);
-    // }
+  /**
+   * 计算需要释放的空间
+   */
+  protected getSpaceToFree(currentSize: number, maxSize: number, requiredSpace: number): number {
+    const targetSize = Math.max(
+      maxSize * 0.8, // 清理到80%容量
+      currentSize - requiredSpace // 或者释放足够的空间
+    );
 
-    return keysToCleanup;
+    return currentSize - targetSize;
   }
 
   /**
-   * 分层清理策略：优先清理不重要的大数据，然后使用LRU
+   * 分层清理策略：已过期 → disposable（按大小）→ low（大数据优先）→ normal（按淘汰顺序，默认LRU），严格按层级顺序
    */
-  private getLayeredCleanupKeys(cleanableKeys: string[], spaceToFree: number): string[] {
-    const keysToCleanup: string[] = [];
+  private getLayeredCleanupCandidates(cleanableKeys: string[], spaceToFree: number): ICleanupCandidate[] {
+    const candidates: ICleanupCandidate[] = [];
+    const selectedKeys = new Set<string>();
     let freedSpace = 0;
 
-    // 第一层：清理不重要的大数据（按大小降序）
+    const select = (key: string, record: IAccessRecord, tier: string, reason: string): boolean => {
+      candidates.push({ key, size: record.size, tier, reason, lastAccess: record.lastAccess });
+      selectedKeys.add(key);
+      freedSpace += record.size;
+      return freedSpace >= spaceToFree;
+    };
+
+    // 第零层：已过期的数据全部清理
+    for (const key of cleanableKeys) {
+      if (this.isExpired(key)) {
+        const record = this.accessRecords[key] || { lastAccess: 0, accessCount: 1, size: this.estimateItemSize(key) };
+        select(key, record, 'expired', '已过期');
+      }
+    }
+
+    if (freedSpace >= spaceToFree) {
+      return candidates;
+    }
+
+    const tiers = new Map(cleanableKeys.map(key => [key, this.getPriorityTier(key)]));
+    const bySizeDesc = (a: string, b: string) =>
+      (this.accessRecords[b]?.size || 0) - (this.accessRecords[a]?.size || 0);
+
+    // 第一层：可丢弃的数据（按大小降序）
+    const disposableKeys = cleanableKeys
+      .filter(key => tiers.get(key) === 'disposable' && !selectedKeys.has(key))
+      .sort(bySizeDesc);
+
+    for (const key of disposableKeys) {
+      const record = this.accessRecords[key];
+      if (record && select(key, record, 'disposable', '可丢弃的数据，按大小优先清理')) {
+        return candidates;
+      }
+    }
+
+    // 第二层：清理不重要的大数据（按大小降序）
     const unimportantLargeKeys = cleanableKeys
       .filter(key => {
-        const isUnimportant = Utils.isUnimportantKey(key, this.config.unimportantKeys || []);
+        const isUnimportant = tiers.get(key) === 'low';
         const record = this.accessRecords[key];
         const isLarge = record && record.size > 5 * 1024; // 内部固定5KB阈值
-        return isUnimportant && isLarge;
+        return isUnimportant && isLarge && !selectedKeys.has(key);
       })
-      .sort((a, b) => {
-        const sizeA = this.accessRecords[a]?.size || 0;
-        const sizeB = this.accessRecords[b]?.size || 0;
-        return sizeB - sizeA; // 大的在前
-      });
+      .sort(bySizeDesc); // 大的在前
 
     for (const key of unimportantLargeKeys) {
       const record = this.accessRecords[key];
       if (record) {
-        keysToCleanup.push(key);
-        freedSpace += record.size;
-
         if (this.config.debug) {
           console.log(`[LRU] 清理不重要的大数据: ${key} (${Utils.formatDataSize(record.size)})`);
         }
 
-        if (freedSpace >= spaceToFree) {
-          return keysToCleanup;
+        if (select(key, record, 'unimportant-large', '不重要的大数据，按大小优先清理')) {
+          return candidates;
         }
       }
     }
 
-    // 第二层：清理其他不重要的数据（按LRU排序）
+    // 第三层：清理其他不重要的数据（按淘汰顺序排序）
     const otherUnimportantKeys = cleanableKeys
       .filter(key => {
-        const isUnimportant = Utils.isUnimportantKey(key, this.config.unimportantKeys || []);
+        const isUnimportant = tiers.get(key) === 'low';
         const record = this.accessRecords[key];
         const isLarge = record && record.size > 5 * 1024; // 内部固定5KB阈值
-        return isUnimportant && !isLarge && !keysToCleanup.includes(key);
+        return isUnimportant && !isLarge && !selectedKeys.has(key);
       });
 
-    const sortedUnimportantKeys = this.sortKeysByLRU(otherUnimportantKeys);
+    const sortedUnimportantKeys = this.orderKeysForEviction(otherUnimportantKeys);
 
     for (const key of sortedUnimportantKeys) {
       const record = this.accessRecords[key];
       if (record) {
-        keysToCleanup.push(key);
-        freedSpace += record.size;
-
-        if (freedSpace >= spaceToFree) {
-          return keysToCleanup;
+        if (select(key, record, 'unimportant', `不重要的数据，按${this.getName()}清理`)) {
+          return candidates;
         }
       }
     }
 
-    // 第三层：清理重要数据（按LRU排序）
+    // 第四层：清理普通数据（按淘汰顺序排序）
     const importantKeys = cleanableKeys
-      .filter(key => {
-        const isUnimportant = Utils.isUnimportantKey(key, this.config.unimportantKeys || []);
-        return !isUnimportant && !keysToCleanup.includes(key);
-      });
+      .filter(key => tiers.get(key) === 'normal' && !selectedKeys.has(key));
 
-    const sortedImportantKeys = this.sortKeysByLRU(importantKeys);
+    const sortedImportantKeys = this.orderKeysForEviction(importantKeys);
 
     for (const key of sortedImportantKeys) {
       const record = this.accessRecords[key];
       if (record) {
-        keysToCleanup.push(key);
-        freedSpace += record.size;
-
         if (this.config.debug) {
           console.log(`[LRU] 清理重要数据: ${key} (${Utils.formatDataSize(record.size)})`);
         }
 
-        if (freedSpace >= spaceToFree) {
+        if (select(key, record, this.getName().toLowerCase(), this.getEvictionReason(key))) {
           break;
         }
       }
     }
 
-    return keysToCleanup;
+    return candidates;
   }
 
   /**
    * 清理指定的键
    */
-  cleanup(keys: string[]): void {
+  cleanup(keys: string[], _options?: { evicted?: boolean }): void {
     for (const key of keys) {
       // 从访问记录中删除
       delete this.accessRecords[key];
+      this.detachedExpiries.delete(key);
 
       // if (this.config.debug) {
       //   console.log(`[LRU] Cleaned up key: ${key}`);
@@ -319,10 +455,298 @@ export class LRUStrategy implements ICleanupStrategy {
     return 'LRU';
   }
 
+  /**
+   * 设置键的过期时间
+   */
+  setExpiry(key: string, expiresAt: number | null): void {
+    if (Utils.isSystemKey(key)) {
+      return;
+    }
+
+    // 没有访问记录的键（排除的键、不归本策略管理的键）单独保存过期时间
+    const record = this.accessRecords[key];
+    if (expiresAt === null) {
+      delete record?.expiresAt;
+      this.detachedExpiries.delete(key);
+    } else if (record) {
+      record.expiresAt = expiresAt;
+      this.detachedExpiries.delete(key);
+    } else {
+      this.detachedExpiries.set(key, expiresAt);
+    }
+
+    this.saveAccessRecordsDebounced();
+  }
+
+  /**
+   * 检查键是否已过期
+   */
+  isExpired(key: string): boolean {
+    const expiresAt = this.accessRecords[key]?.expiresAt ?? this.detachedExpiries.get(key);
+    return expiresAt !== undefined && expiresAt <= Utils.now();
+  }
+
+  /**
+   * 设置淘汰钩子
+   */
+  setEvictionHooks(hooks: IEvictionHooks | null): void {
+    this.evictionHooks = hooks;
+  }
+
+  /**
+   * 检查是否为排除的键
+   */
+  protected isExcludedKey(key: string): boolean {
+    return Utils.matchesKeyPattern(key, this.config.excludeKeys);
+  }
+
+  /**
+   * 检查键是否归本策略管理（配置了 keyPrefix 时只管理该前缀的键）
+   */
+  protected isManagedKey(key: string): boolean {
+    return !this.config.keyPrefix || key.startsWith(this.config.keyPrefix);
+  }
+
+  /**
+   * 生成策略自身使用的系统键
+   * 按策略名称和 keyPrefix 区分，不同策略、不同命名空间的数据互不干扰
+   */
+  protected getStorageKey(suffix: string): string {
+    const prefix = [this.getName().toLowerCase(), this.metadataScope, this.config.id, this.config.keyPrefix]
+      .filter(Boolean)
+      .join('_');
+    return Utils.generateStorageKey(prefix, suffix);
+  }
+
+  /**
+   * 被管理存储的标识，用于在共享的元数据存储中区分各清理器的记录
+   * 自定义适配器返回空字符串，共享元数据存储时需要通过 id 区分
+   */
+  private static getAdapterScope(adapter: IStorageAdapter): string {
+    if (adapter instanceof WebStorageAdapter) {
+      return adapter.getStorageName();
+    }
+
+    if (adapter instanceof IndexedDBAdapter) {
+      return `indexedDB_${adapter.getDatabaseName()}_${adapter.getStoreName()}`;
+    }
+
+    // 内存存储不会跨页面保留数据，按实例编号区分即可
+    if (adapter instanceof MemoryStorageAdapter) {
+      let index = LRUStrategy.memoryAdapterIndexes.get(adapter);
+      if (index === undefined) {
+        index = LRUStrategy.memoryAdapterCount++;
+        LRUStrategy.memoryAdapterIndexes.set(adapter, index);
+      }
+      return `memory${index}`;
+    }
+
+    return '';
+  }
+
+  private static memoryAdapterIndexes = new WeakMap<MemoryStorageAdapter, number>();
+  private static memoryAdapterCount = 0;
+
+  /**
+   * 获取访问记录的保存键
+   */
+  getRecordsKey(): string {
+    return this.accessRecordsKey;
+  }
+
+  /**
+   * 固定键，固定的键不会被自动清理
+   */
+  pin(key: string, options: IPinOptions = {}): void {
+    if (options.persist === false) {
+      this.sessionPinnedKeys.add(key);
+      return;
+    }
+
+    this.pinnedKeys.add(key);
+    this.unpinnedKeys.delete(key);
+    this.saveAccessRecordsDebounced();
+  }
+
+  /**
+   * 取消固定键
+   */
+  unpin(key: string): void {
+    this.sessionPinnedKeys.delete(key);
+
+    if (this.pinnedKeys.delete(key)) {
+      // 记录本页取消的固定，合并其他标签页的记录时不会被重新固定
+      this.unpinnedKeys.add(key);
+      this.saveAccessRecordsDebounced();
+    }
+  }
+
+  /**
+   * 检查键是否被固定
+   */
+  isPinned(key: string): boolean {
+    return this.pinnedKeys.has(key) || this.sessionPinnedKeys.has(key);
+  }
+
+  /**
+   * 获取所有被固定的键
+   */
+  getPinnedKeys(): string[] {
+    return Array.from(new Set([...this.pinnedKeys, ...this.sessionPinnedKeys]));
+  }
+
+  /**
+   * 随访问记录一起保存的纪元（毫秒），子类按需覆盖，例如 LFU 保存上次衰减的时间
+   */
+  protected getRecordsEpoch(): number | undefined {
+    return undefined;
+  }
+
+  /**
+   * 加载访问记录时恢复记录保存时的纪元，子类按需覆盖
+   */
+  protected restoreRecordsEpoch(_epoch: number): void {
+    // 默认没有纪元
+  }
+
+  /**
+   * 合并其他标签页保存的记录之前，按记录保存时的纪元调整记录，子类按需覆盖
+   * @param epoch 记录保存时的纪元，旧数据没有纪元时为null
+   */
+  protected adjustPersistedRecords(_records: Record<string, IAccessRecord>, _epoch: number | null): void {
+    // 默认原样合并
+  }
+
+  /**
+   * 合并单独保存的过期时间（没有访问记录或记录超出数量限制的键），本页已知过期时间的键除外
+   */
+  private mergeExpiries(data: string): void {
+    for (const [key, expiresAt] of Object.entries(Utils.decompressExpiries(data))) {
+      if (this.accessRecords[key]?.expiresAt !== undefined || this.detachedExpiries.has(key)) {
+        continue;
+      }
+
+      if (this.accessRecords[key]) {
+        this.accessRecords[key].expiresAt = expiresAt;
+      } else {
+        this.detachedExpiries.set(key, expiresAt);
+      }
+    }
+  }
+
+  /**
+   * 合并持久化的固定键，本页已取消固定的键除外
+   */
+  private mergePinnedKeys(data: string): void {
+    for (const key of Utils.decompressPinnedKeys(data)) {
+      if (!this.unpinnedKeys.has(key)) {
+        this.pinnedKeys.add(key);
+      }
+    }
+  }
+
+  /**
+   * 合并持久化的频率草图，尺寸配置变化时以当前配置重新开始统计
+   */
+  private mergeSketch(data: string): void {
+    if (!this.sketch) {
+      return;
+    }
+
+    const serialized = Utils.decompressSketch(data);
+    const persisted = serialized ? FrequencySketch.deserialize(serialized) : null;
+    if (persisted && !this.sketch.merge(persisted) && this.config.debug) {
+      console.log('[LRU] Frequency sketch size changed, discarding persisted sketch');
+    }
+  }
+
+  /**
+   * 根据频率草图为没有完整记录的键还原近似的访问记录
+   * 草图中没有该键时返回null
+   */
+  private restoreRecordFromSketch(key: string): IAccessRecord | null {
+    const lastAccess = this.sketch?.estimateLastAccess(key);
+    if (!this.sketch || !lastAccess) {
+      return null;
+    }
+
+    return {
+      lastAccess,
+      accessCount: Math.max(1, this.sketch.estimateCount(key)),
+      size: this.estimateItemSize(key)
+    };
+  }
+
+  /**
+   * 估算键的访问次数
+   * 有完整记录时返回记录中的次数，否则使用频率草图（未开启时为0）
+   */
+  estimateFrequency(key: string): number {
+    return this.accessRecords[key]?.accessCount ?? this.sketch?.estimateCount(key) ?? 0;
+  }
+
+  /**
+   * 获取键所属的优先级层级
+   */
+  getPriorityTier(key: string): PriorityTier {
+    return Utils.getPriorityTier(key, this.config.priorityTiers, this.config.unimportantKeys);
+  }
+
+  /**
+   * 确定淘汰顺序：配置了评分函数时按评分排序，否则使用策略自身的算法
+   */
+  private orderKeysForEviction(keys: string[]): string[] {
+    return this.config.scorer ? this.sortKeysByScore(keys) : this.sortKeysForEviction(keys);
+  }
+
+  /**
+   * 按淘汰评分降序排序键，没有访问记录的键优先清理
+   */
+  private sortKeysByScore(keys: string[]): string[] {
+    const context = Utils.createScoringContext(this.accessRecords);
+    const scores = new Map<string, number>();
+    for (const key of keys) {
+      const record = this.accessRecords[key];
+      scores.set(key, record ? this.scoreKey(key, record, context) : Infinity);
+    }
+
+    return keys.sort((a, b) => {
+      const scoreA = scores.get(a)!;
+      const scoreB = scores.get(b)!;
+      if (scoreA === scoreB) return 0;
+      return scoreB > scoreA ? 1 : -1;
+    });
+  }
+
+  /**
+   * 计算键的淘汰评分，未配置评分函数时使用默认评分
+   */
+  protected scoreKey(key: string, record: IAccessRecord, context: IScoringContext): number {
+    return this.config.scorer
+      ? this.config.scorer(key, record, context)
+      : Utils.defaultEvictionScore(key, record, context);
+  }
+
+  /**
+   * 按淘汰顺序排序键，越靠前越先被清理
+   * 子类可以覆盖以实现其他淘汰算法
+   */
+  protected sortKeysForEviction(keys: string[]): string[] {
+    return this.sortKeysByLRU(keys);
+  }
+
+  /**
+   * 按淘汰顺序选中重要数据时的原因说明
+   * @param key 被选中的键，子类可以据此给出更具体的原因
+   */
+  protected getEvictionReason(key: string): string {
+    return '最近最少使用';
+  }
+
   /**
    * 按LRU算法排序键
    */
-  private sortKeysByLRU(keys: string[]): string[] {
+  protected sortKeysByLRU(keys: string[]): string[] {
     return keys.sort((a, b) => {
       const recordA = this.accessRecords[a];
       const recordB = this.accessRecords[b];
@@ -353,8 +777,15 @@ export class LRUStrategy implements ICleanupStrategy {
           if (typeof size === 'number') {
             this.accessRecords[key].size = size;
           } else {
-            // 如果是Promise，使用估算值
-            this.accessRecords[key].size = this.estimateItemSize(key);
+            // 异步适配器：保留已记录的大小，结果返回后再更新，避免被默认估算值覆盖
+            size.then(actualSize => {
+              if (this.accessRecords[key] && actualSize > 0) {
+                this.accessRecords[key].size = actualSize;
+              }
+            }).catch(() => undefined);
+            if (!this.accessRecords[key].size) {
+              this.accessRecords[key].size = this.estimateItemSize(key);
+            }
           }
         } catch (error) {
           // 如果获取大小失败，使用估算值
@@ -371,7 +802,7 @@ export class LRUStrategy implements ICleanupStrategy {
     try {
       const value = this.storageAdapter.getItem(key);
       if (typeof value === 'string') {
-        return new Blob([key + value]).size;
+        return Utils.getStringByteSize(key + value);
       }
       return 1024; // 默认1KB
     } catch (error) {
@@ -404,7 +835,9 @@ export class LRUStrategy implements ICleanupStrategy {
     const expiredKeys: string[] = [];
 
     for (const [key, record] of Object.entries(this.accessRecords)) {
-      if (now - record.lastAccess > this.config.maxAccessAge) {
+      // 设置了未到期过期时间的记录需要保留，否则会丢失过期信息
+      const hasPendingExpiry = record.expiresAt !== undefined && record.expiresAt > now;
+      if (now - record.lastAccess > this.config.maxAccessAge && !hasPendingExpiry) {
         expiredKeys.push(key);
       }
     }
@@ -423,13 +856,39 @@ export class LRUStrategy implements ICleanupStrategy {
    */
   private async loadAccessRecords(): Promise<void> {
     try {
-      const data = await this.storageAdapter.getItem(this.accessRecordsKey);
-      if (data) {
-        this.accessRecords = Utils.decompressAccessRecords(data);
+      const slots = await this.readAccessRecordSlots();
+
+      // 更新版本的SDK写入的记录本版本无法读取，但不能覆盖，本实例不再写入访问记录
+      if (slots.some(payload => Utils.isNewerAccessRecordFormat(payload))) {
+        console.warn('[LRU] Access records were written by a newer version, they will not be saved by this instance');
+        this.recordsReadOnly = true;
+      }
+
+      if (slots.length > 0) {
+        // 从最新的槽位开始尝试，写入中断、损坏或无法迁移时回退到上一份完好的记录
+        const data = slots.find(payload => {
+          const records = Utils.tryDecompressAccessRecords(payload);
+          if (!records) {
+            return false;
+          }
 
-        // 验证访问记录的完整性
-        if (!this.validateAccessRecords()) {
-          // 访问记录损坏，触发重建
+          this.accessRecords = records;
+          return this.validateAccessRecords();
+        });
+
+        if (data !== undefined) {
+          const epoch = Utils.decompressRecordsEpoch(data);
+          if (epoch !== null) {
+            this.restoreRecordsEpoch(epoch);
+          }
+          this.mergeExpiries(data);
+          this.mergePinnedKeys(data);
+          this.mergeSketch(data);
+        } else if (this.recordsReadOnly) {
+          // 没有本版本能读取的记录，从空记录开始，由存量数据初始化
+          this.accessRecords = {};
+        } else {
+          // 两个槽位都损坏，触发重建
           console.warn('[LRU] Access records corrupted, rebuilding...');
           this.rebuildAccessRecords();
         }
@@ -447,6 +906,34 @@ export class LRUStrategy implements ICleanupStrategy {
     }
   }
 
+  /**
+   * 读取A/B两个槽位中校验通过的访问记录，按序号从新到旧排列
+   */
+  private async readAccessRecordSlots(): Promise<string[]> {
+    const slots: Array<{ payload: string; sequence: number }> = [];
+
+    for (const key of [this.accessRecordsKey, this.accessRecordsBackupKey]) {
+      const data = await this.metadataStore.getItem(key);
+      if (!data) {
+        continue;
+      }
+
+      const slot = Utils.unwrapChecksum(data);
+      if (slot) {
+        slots.push(slot);
+      } else {
+        console.warn(`[LRU] Checksum mismatch in ${key}, falling back to the other slot`);
+      }
+    }
+
+    slots.sort((a, b) => b.sequence - a.sequence);
+    if (slots.length > 0) {
+      this.recordsSequence = Math.max(this.recordsSequence, slots[0].sequence);
+    }
+
+    return slots.map(slot => slot.payload);
+  }
+
   /**
    * 验证访问记录的完整性
    */
@@ -489,12 +976,20 @@ export class LRUStrategy implements ICleanupStrategy {
 
       for (const key of allKeys) {
         // 跳过系统键和排除的键
-        if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+        if (Utils.isSystemKey(key) || this.isExcludedKey(key)) {
           continue;
         }
 
         // 如果没有访问记录，创建初始记录
         if (!this.accessRecords[key]) {
+          // 超出记录数量限制的键可以从频率草图还原近似的访问信息
+          const restored = this.restoreRecordFromSketch(key);
+          if (restored) {
+            this.accessRecords[key] = restored;
+            initializedCount++;
+            continue;
+          }
+
           const size = this.estimateItemSize(key);
 
           // 为存量数据设置当前时间作为初始访问时间
@@ -537,7 +1032,7 @@ export class LRUStrategy implements ICleanupStrategy {
 
       for (const key of allKeys) {
         // 跳过系统键和排除的键
-        if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+        if (Utils.isSystemKey(key) || this.isExcludedKey(key)) {
           continue;
         }
 
@@ -573,40 +1068,205 @@ export class LRUStrategy implements ICleanupStrategy {
 
   /**
    * 保存访问记录
+   * 开启跨标签页同步时先合并其他标签页已保存的记录，避免互相覆盖
    */
-  private async saveAccessRecords(): Promise<void> {
+  protected async saveAccessRecords(maxEntries: number = this.config.maxRecords): Promise<void> {
+    if (this.recordsReadOnly) {
+      return;
+    }
+
     try {
+      if (this.config.crossTabSync) {
+        await this.syncAccessRecords();
+      }
+
       // 使用新的高级压缩算法
+      const context = Utils.createScoringContext(this.accessRecords);
       const result = Utils.compressAccessRecords(this.accessRecords, {
         debug: this.config.debug,
-        maxEntries: 500 // 限制最大记录数，防止无限增长
+        maxEntries, // 限制最大记录数，防止无限增长
+        score: (key, record) => this.scoreKey(key, record, context),
+        pinnedKeys: Array.from(this.pinnedKeys),
+        sketch: this.sketch?.serialize(),
+        epoch: this.getRecordsEpoch(),
+        expiries: Object.fromEntries(this.detachedExpiries)
       });
 
-      // 保存压缩后的数据
-      await this.storageAdapter.setItem(this.accessRecordsKey, result.compressed);
+      // 交替写入A/B两个槽位，写入中断时另一个槽位仍保留上一份完好的记录
+      // 序号为偶数写A、奇数写B，首次写入不会覆盖没有封装的旧数据
+      const sequence = this.recordsSequence + 1;
+      const slotKey = sequence % 2 === 0 ? this.accessRecordsKey : this.accessRecordsBackupKey;
+      await this.metadataStore.setItem(slotKey, Utils.wrapWithChecksum(result.compressed, sequence));
+      this.recordsSequence = sequence;
 
       // 如果是调试模式，保存调试信息
       if (this.config.debug && result.debug) {
-        await this.storageAdapter.setItem(this.debugRecordsKey, result.debug);
+        await this.metadataStore.setItem(this.debugRecordsKey, result.debug);
       }
+
+      // 已取消的固定已经写入，之后以存储中的数据为准
+      this.unpinnedKeys.clear();
+
+      // 通知其他标签页合并最新记录（storage 事件不覆盖 IndexedDB）
+      this.syncChannel?.postMessage({ type: 'records-updated' });
     } catch (error) {
       console.warn('[LRU] Failed to save access records:', error);
 
-      // 检查是否是存储配额超限错误
-      if (this.isQuotaExceededError(error)) {
-        console.warn('[LRU] Storage quota exceeded when saving access records, clearing all storage');
-        await this.clearAllStorage();
+      // 配额超限时逐步减少保存的记录数重试，不删除任何业务数据
+      if (Utils.isQuotaExceededError(error) && maxEntries > 50) {
+        const nextMaxEntries = Math.floor(maxEntries / 2);
+        console.warn(`[LRU] Storage quota exceeded when saving access records, retrying with ${nextMaxEntries} entries`);
+        await this.saveAccessRecords(nextMaxEntries);
       }
     }
   }
 
+  /**
+   * 把持久化的访问记录降级为旧版本格式，回滚到旧版SDK之前调用
+   * 旧版本不认识校验封装和B槽位，降级后的数据不带封装写入A槽位；之后应销毁策略，避免再次写入新格式
+   * 记录由更新版本的SDK写入时无法降级，保持原样
+   */
+  async downgradeAccessRecords(version: number): Promise<void> {
+    if (this.recordsReadOnly) {
+      console.warn('[LRU] Access records were written by a newer version and cannot be downgraded');
+      return;
+    }
+
+    await this.saveAccessRecords();
+
+    const [data] = await this.readAccessRecordSlots();
+    if (!data) {
+      return;
+    }
+
+    await this.metadataStore.setItem(this.accessRecordsKey, Utils.migrateAccessRecords(data, version));
+    await this.metadataStore.removeItem(this.accessRecordsBackupKey);
+    this.recordsSequence = 0;
+  }
+
   /**
    * 防抖保存访问记录
    */
-  private saveAccessRecordsDebounced = Utils.debounce(() => {
+  protected saveAccessRecordsDebounced = Utils.debounce(() => {
     this.saveAccessRecords();
   }, 1000);
 
+  /**
+   * 从存储中读取其他标签页保存的访问记录并合并到内存
+   * 只合并存储中仍然存在的键，已被删除的键不会被恢复
+   */
+  async syncAccessRecords(): Promise<void> {
+    try {
+      // 与加载时一致，跳过无法解析的槽位
+      let data: string | undefined;
+      let persisted: Record<string, IAccessRecord> | null = null;
+      for (const payload of await this.readAccessRecordSlots()) {
+        persisted = Utils.tryDecompressAccessRecords(payload);
+        if (persisted) {
+          data = payload;
+          break;
+        }
+      }
+
+      if (data === undefined || !persisted) {
+        return;
+      }
+
+      this.adjustPersistedRecords(persisted, Utils.decompressRecordsEpoch(data));
+      this.mergeExpiries(data);
+      this.mergePinnedKeys(data);
+      this.mergeSketch(data);
+      const existingKeys = new Set(await this.storageAdapter.getAllKeys());
+      let mergedCount = 0;
+
+      for (const [key, incoming] of Object.entries(persisted)) {
+        if (!existingKeys.has(key) || Utils.isSystemKey(key) || this.isExcludedKey(key)) {
+          continue;
+        }
+
+        if (this.mergeAccessRecord(key, incoming)) {
+          mergedCount++;
+        }
+      }
+
+      if (this.config.debug && mergedCount > 0) {
+        console.log(`[LRU] Merged ${mergedCount} access records from other tabs`);
+      }
+    } catch (error) {
+      console.warn('[LRU] Failed to sync access records:', error);
+    }
+  }
+
+  /**
+   * 合并单条访问记录，以最近一次访问为准
+   * 访问次数取较大值，避免同一次访问在多个标签页间被重复累加
+   * @returns 是否更新了内存中的记录
+   */
+  private mergeAccessRecord(key: string, incoming: IAccessRecord): boolean {
+    if (typeof incoming.lastAccess !== 'number' || typeof incoming.accessCount !== 'number') {
+      return false;
+    }
+
+    const local = this.accessRecords[key];
+    if (!local) {
+      this.accessRecords[key] = { ...incoming };
+      return true;
+    }
+
+    if (incoming.lastAccess <= local.lastAccess && incoming.accessCount <= local.accessCount) {
+      return false;
+    }
+
+    const newer = incoming.lastAccess > local.lastAccess ? incoming : local;
+    this.accessRecords[key] = {
+      ...newer,
+      accessCount: Math.max(local.accessCount, incoming.accessCount)
+    };
+    return true;
+  }
+
+  /**
+   * 防抖合并其他标签页的记录，storage 事件和广播可能同时到达
+   */
+  private syncAccessRecordsDebounced = Utils.debounce(() => {
+    this.syncAccessRecords();
+  }, 100);
+
+  /**
+   * 监听其他标签页的记录更新
+   */
+  private setupCrossTabSync(): void {
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.syncChannel = new BroadcastChannel(this.accessRecordsKey);
+      this.syncChannel.onmessage = () => this.syncAccessRecordsDebounced();
+    }
+  }
+
+  /**
+   * 处理其他标签页对访问记录的写入
+   */
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key === this.accessRecordsKey || event.key === this.accessRecordsBackupKey) {
+      this.syncAccessRecordsDebounced();
+    }
+  };
+
+  /**
+   * 释放跨标签页同步占用的资源
+   */
+  destroy(): void {
+    if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+
+    this.syncChannel?.close();
+    this.syncChannel = null;
+  }
+
   /**
    * 获取访问统计信息
    */
@@ -657,7 +1317,7 @@ export class LRUStrategy implements ICleanupStrategy {
     }
 
     try {
-      const debugData = await this.storageAdapter.getItem(this.debugRecordsKey);
+      const debugData = await this.metadataStore.getItem(this.debugRecordsKey);
       return debugData ? JSON.parse(debugData) : null;
     } catch (error) {
       console.warn('[LRU] Failed to get debug info:', error);
@@ -710,13 +1370,14 @@ export class LRUStrategy implements ICleanupStrategy {
     size: number;
     priority: number;
   }> {
+    const context = Utils.createScoringContext(this.accessRecords);
     const candidates = Object.entries(this.accessRecords)
       .map(([key, record]) => ({
         key,
         lastAccess: Utils.formatDate(record.lastAccess),
         accessCount: record.accessCount,
         size: record.size,
-        priority: this.calculateCleanupPriority(record)
+        priority: this.scoreKey(key, record, context)
       }))
       .sort((a, b) => b.priority - a.priority) // 优先级高的先删除
       .slice(0, limit);
@@ -725,64 +1386,122 @@ export class LRUStrategy implements ICleanupStrategy {
   }
 
   /**
-   * 计算清理优先级
+   * 插入时触发的时间清理
+   * 由清理器管理时交给它在串行清理（跨标签页锁）内执行，连续插入只执行一次；单独使用策略时直接执行
    */
-  private calculateCleanupPriority(record: IAccessRecord): number {
-    const now = Date.now();
-    const timeSinceLastAccess = now - record.lastAccess;
-    const daysSinceAccess = timeSinceLastAccess / (24 * 60 * 60 * 1000);
+  private scheduleTimeBasedCleanup(): void {
+    const hooks = this.evictionHooks;
+    if (!hooks?.runExclusive) {
+      this.performTimeBasedCleanup();
+      return;
+    }
+
+    if (this.timeCleanupScheduled) {
+      return;
+    }
 
-    // 优先级计算：时间权重 + 访问频率权重
-    const timeWeight = Math.min(daysSinceAccess, 30); // 最多30天权重
-    const accessWeight = Math.max(0, 10 - record.accessCount); // 访问次数越少权重越高
+    this.timeCleanupScheduled = true;
+    hooks.runExclusive(async () => {
+      this.timeCleanupScheduled = false;
 
-    return timeWeight + accessWeight;
+      // 与手动触发一致，先合并其他标签页的记录，避免按过时的访问时间删除
+      if (this.config.crossTabSync) {
+        await this.syncAccessRecords();
+      }
+
+      this.performTimeBasedCleanup();
+    });
   }
 
   /**
    * 执行基于时间的清理
-   * 清理超过指定天数未访问的key
+   * 清理已过期以及超过指定天数未访问的key，演练模式下只返回计划
    */
-  private performTimeBasedCleanup(): void {
-    if (!this.config.enableTimeBasedCleanup) {
-      return;
-    }
+  private performTimeBasedCleanup(dryRun: boolean = this.config.dryRun): {
+    candidates: ICleanupCandidate[];
+    vetoedKeys: string[];
+  } {
 
     const now = Date.now();
     const thresholdMs = this.config.timeCleanupThreshold * 24 * 60 * 60 * 1000; // 转换为毫秒
-    const expiredKeys: string[] = [];
+    const candidates: ICleanupCandidate[] = [];
 
     // 获取所有存储的键
     const allKeys = this.getAllStorageKeys();
 
     for (const key of allKeys) {
-      // 跳过系统键和排除的键
-      if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+      // 跳过系统键、排除的键、固定的键和 critical 层的键
+      if (Utils.isSystemKey(key) || this.isExcludedKey(key) || this.isPinned(key) ||
+        this.getPriorityTier(key) === 'critical') {
         continue;
       }
 
-      const record = this.accessRecords[key];
+      const record = this.accessRecords[key] || this.restoreRecordFromSketch(key);
+
+      // 单独设置了过期时间的键，不受时间清理开关影响
+      if (this.isExpired(key)) {
+        candidates.push({ key, size: record ? record.size : this.estimateItemSize(key), tier: 'expired', reason: '已过期' });
+        continue;
+      }
+
+      if (!this.config.enableTimeBasedCleanup) {
+        continue;
+      }
 
       if (record) {
         // 有访问记录，检查是否过期
         if (now - record.lastAccess > thresholdMs) {
-          expiredKeys.push(key);
+          candidates.push({
+            key,
+            size: record.size,
+            tier: 'time',
+            reason: `超过${this.config.timeCleanupThreshold}天未访问`
+          });
         }
       } else {
         // 没有访问记录的键，认为是很久以前的数据，直接清理
-        expiredKeys.push(key);
+        candidates.push({
+          key,
+          size: this.estimateItemSize(key),
+          tier: 'time',
+          reason: '没有访问记录'
+        });
+      }
+    }
+
+    const hooks = this.evictionHooks;
+
+    if (dryRun) {
+      if (candidates.length > 0) {
+        hooks?.planned?.(candidates, 'time');
+
+        if (this.config.debug) {
+          console.log(`[LRU] Time-based cleanup (dry run): would remove ${candidates.length} keys`, candidates);
+        }
       }
+      return { candidates, vetoedKeys: [] };
     }
 
-    // 执行清理
-    if (expiredKeys.length > 0) {
-      this.cleanupExpiredKeys(expiredKeys);
+    // 执行清理（清理器可以通过钩子否决单个键）
+    const removed = hooks
+      ? candidates.filter(candidate => hooks.beforeEvict(candidate.key, 'time'))
+      : candidates;
+    const keysToRemove = removed.map(candidate => candidate.key);
+    const vetoedKeys = candidates
+      .filter(candidate => !removed.includes(candidate))
+      .map(candidate => candidate.key);
+
+    if (keysToRemove.length > 0) {
+      this.cleanupExpiredKeys(keysToRemove);
+      hooks?.afterEvict(keysToRemove, 'time');
 
       if (this.config.debug) {
-        console.log(`[LRU] Time-based cleanup: removed ${expiredKeys.length} keys older than ${this.config.timeCleanupThreshold} days`);
-        console.log(`[LRU] Cleaned keys:`, expiredKeys.slice(0, 5).join(', ') + (expiredKeys.length > 5 ? '...' : ''));
+        console.log(`[LRU] Time-based cleanup: removed ${keysToRemove.length} keys older than ${this.config.timeCleanupThreshold} days`);
+        console.log(`[LRU] Cleaned keys:`, keysToRemove.slice(0, 5).join(', ') + (keysToRemove.length > 5 ? '...' : ''));
       }
     }
+
+    return { candidates: removed, vetoedKeys };
   }
 
   /**
@@ -791,7 +1510,7 @@ export class LRUStrategy implements ICleanupStrategy {
   private getAllStorageKeys(): string[] {
     try {
       const keys = this.storageAdapter.getAllKeys();
-      return Array.isArray(keys) ? keys : [];
+      return Array.isArray(keys) ? keys.filter(key => this.isManagedKey(key)) : [];
     } catch (error) {
       console.warn('[LRU] Failed to get all storage keys:', error);
       return [];
@@ -818,25 +1537,21 @@ export class LRUStrategy implements ICleanupStrategy {
   /**
    * 手动触发基于时间的清理
    */
-  triggerTimeBasedCleanup(): {
+  triggerTimeBasedCleanup(options: { dryRun?: boolean } = {}): {
     cleanedKeys: string[];
     cleanedCount: number;
+    candidates: ICleanupCandidate[];
+    vetoedKeys: string[];
   } {
-    const beforeKeys = this.getAllStorageKeys().length;
-    this.performTimeBasedCleanup();
-    const afterKeys = this.getAllStorageKeys().length;
-
-    const cleanedCount = beforeKeys - afterKeys;
-    const cleanedKeys = Object.keys(this.accessRecords).filter(key => {
-      const record = this.accessRecords[key];
-      const now = Date.now();
-      const thresholdMs = this.config.timeCleanupThreshold * 24 * 60 * 60 * 1000;
-      return now - record.lastAccess > thresholdMs;
-    });
+    const dryRun = options.dryRun ?? this.config.dryRun;
+    const { candidates, vetoedKeys } = this.performTimeBasedCleanup(dryRun);
+    const cleanedKeys = dryRun ? [] : candidates.map(candidate => candidate.key);
 
     return {
-      cleanedKeys: cleanedKeys.slice(0, 10), // 只返回前10个作为示例
-      cleanedCount
+      cleanedKeys,
+      cleanedCount: cleanedKeys.length,
+      candidates,
+      vetoedKeys
     };
   }
 
@@ -860,7 +1575,7 @@ export class LRUStrategy implements ICleanupStrategy {
     }> = [];
 
     for (const [key, record] of Object.entries(this.accessRecords)) {
-      if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+      if (Utils.isSystemKey(key) || this.isExcludedKey(key)) {
         continue;
       }
 
@@ -900,12 +1615,12 @@ export class LRUStrategy implements ICleanupStrategy {
     }> = [];
 
     for (const [key, record] of Object.entries(this.accessRecords)) {
-      if (Utils.isSystemKey(key) || this.config.excludeKeys.includes(key)) {
+      if (Utils.isSystemKey(key) || this.isExcludedKey(key)) {
         continue;
       }
 
-      const isUnimportant = Utils.isUnimportantKey(key, this.config.unimportantKeys || []);
-      if (isUnimportant) {
+      const tier = this.getPriorityTier(key);
+      if (tier === 'low' || tier === 'disposable') {
         const isLarge = record.size > 5 * 1024; // 内部固定5KB阈值
         candidates.push({
           key,
@@ -983,7 +1698,7 @@ export class LRUStrategy implements ICleanupStrategy {
     recommendations: string[];
   } {
     const allKeys = this.getAllStorageKeys().filter(key =>
-      !Utils.isSystemKey(key) && !this.config.excludeKeys.includes(key)
+      !Utils.isSystemKey(key) && !this.isExcludedKey(key)
     );
 
     const trackedKeys = Object.keys(this.accessRecords);
@@ -1052,42 +1767,4 @@ export class LRUStrategy implements ICleanupStrategy {
       rebuiltCount: afterStats.trackedKeys - beforeStats.trackedKeys
     };
   }
-
-  /**
-   * 检查是否是存储配额超限错误
-   */
-  private isQuotaExceededError(error: any): boolean {
-    return error && (
-      error.name === 'QuotaExceededError' ||
-      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
-      error.code === 22 ||
-      error.code === 1014 ||
-      // 检查错误消息中的关键词
-      (error.message && (
-        error.message.toLowerCase().includes('quota') ||
-        error.message.toLowerCase().includes('storage') ||
-        error.message.toLowerCase().includes('exceeded') ||
-        error.message.toLowerCase().includes('full')
-      ))
-    );
-  }
-
-  /**
-   * 清空所有存储
-   */
-  private async clearAllStorage(): Promise<void> {
-    try {
-      // 如果适配器支持清空操作，直接清空所有存储
-      if (typeof (this.storageAdapter as any).clear === 'function') {
-        (this.storageAdapter as any).clear();
-        console.log('[LRU] All storage cleared successfully');
-      } else {
-        console.warn('[LRU] Storage adapter does not support clear operation');
-      }
-    } catch (error) {
-      console.error('[LRU] Failed to clear storage:', error);
-    }
-  }
-
-
 }
\ No newline at end of file
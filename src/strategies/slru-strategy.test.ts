@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IAccessRecord } from '../interfaces';
+import { MemoryStorageAdapter } from '../adapters';
+import { Utils } from '../utils';
+import { SLRUStrategy } from './slru-strategy';
+
+const VALUE = 'x'.repeat(100);
+
+// 测试需要访问的内部状态
+type SLRUInternals = {
+  ready: Promise<void>;
+  accessRecords: Record<string, IAccessRecord>;
+};
+
+const createStrategy = async (config: { protectedRatio?: number; maxRecords?: number } = {}) => {
+  // 每次读取时间前进1秒，保证访问顺序可区分
+  let now = Date.now();
+  vi.spyOn(Utils, 'now').mockImplementation(() => (now += 1000));
+
+  const adapter = new MemoryStorageAdapter();
+  const strategy = new SLRUStrategy(adapter, { maxAccessAge: Infinity, ...config });
+  await (strategy as unknown as SLRUInternals).ready;
+
+  const write = (key: string) => {
+    adapter.setItem(key, VALUE);
+    strategy.recordAccess(key, VALUE);
+  };
+
+  return { adapter, strategy, write };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SLRUStrategy', () => {
+  it('keeps keys read again ahead of a later scan of new keys', async () => {
+    const { adapter, strategy, write } = await createStrategy();
+
+    write('config');
+    strategy.recordAccess('config');
+    ['scan_1', 'scan_2', 'scan_3'].forEach(write);
+
+    expect(strategy.getSegmentStats()).toEqual({ probation: 3, protected: 1 });
+
+    // 释放三个键的空间：批量写入的新键先于更早但被再次读取的键淘汰
+    const keys = strategy.getKeysToCleanup(adapter.getAllKeys(), 10000, 10000, 3 * 106);
+    expect(keys).toEqual(['scan_1', 'scan_2', 'scan_3']);
+
+    strategy.destroy();
+  });
+
+  it('demotes the least recently used protected keys when the segment is full', async () => {
+    const { adapter, strategy, write } = await createStrategy({ protectedRatio: 0.5, maxRecords: 2 });
+
+    for (const key of ['first', 'second', 'third']) {
+      write(key);
+      strategy.recordAccess(key);
+    }
+    write('fresh');
+
+    // 容量为 ceil(4 * 0.5) = 2，first 被降级到试用段的最近使用端
+    expect(strategy.getSegmentStats()).toEqual({ probation: 2, protected: 2 });
+    expect(strategy.getKeysToCleanup(adapter.getAllKeys(), 10000, 10000, 2 * 105)).toEqual(['first', 'fresh']);
+
+    strategy.destroy();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { IAccessRecord, IStorageAdapter } from '../interfaces';
+import { Utils } from '../utils';
+import { LRUStrategy } from './lru-strategy';
+
+/**
+ * 保护段标记，保存在访问记录的 flags 中
+ */
+const PROTECTED_FLAG = 1;
+
+/**
+ * SLRU (Segmented LRU) 清理策略
+ * 新写入的键进入试用段，再次访问后晋升到保护段；清理时先按LRU淘汰试用段，再淘汰保护段。
+ * 一次性批量写入大量新键只会挤占试用段，不会把反复使用的数据挤出去（抗扫描）
+ */
+export class SLRUStrategy extends LRUStrategy {
+  private protectedRatio: number;
+
+  constructor(
+    storageAdapter: IStorageAdapter,
+    config: ConstructorParameters<typeof LRUStrategy>[1] & {
+      /**
+       * 保护段最多占记录容量的比例（0-1），默认0.8，超出时最久未访问的键降级回试用段
+       * 容量取 maxRecords 和当前记录数中的较大值，键较少时保护段不会随之缩小
+       */
+      protectedRatio?: number;
+    }
+  ) {
+    super(storageAdapter, config);
+    this.protectedRatio = Math.min(Math.max(config.protectedRatio ?? 0.8, 0), 1);
+  }
+
+  /**
+   * 获取策略名称
+   */
+  getName(): string {
+    return 'SLRU';
+  }
+
+  /**
+   * 记录访问，已有记录的键再次访问时晋升到保护段
+   */
+  recordAccess(key: string, value?: string): boolean {
+    const isHit = !!this.accessRecords[key];
+    const result = super.recordAccess(key, value);
+
+    const record = this.accessRecords[key];
+    if (isHit && record && !this.isProtected(record)) {
+      record.flags = (record.flags || 0) | PROTECTED_FLAG;
+      delete record.rank;
+      this.rebalanceSegments();
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取各分段的键数量
+   */
+  getSegmentStats(): { probation: number; protected: number } {
+    const records = Object.values(this.accessRecords);
+    const protectedCount = records.filter(record => this.isProtected(record)).length;
+
+    return {
+      probation: records.length - protectedCount,
+      protected: protectedCount
+    };
+  }
+
+  /**
+   * 先淘汰试用段，再淘汰保护段，段内按LRU排序
+   * 从保护段降级的键以降级时间排在试用段的最近使用端，不会被紧接着的批量写入挤出去
+   */
+  protected sortKeysForEviction(keys: string[]): string[] {
+    const isProtectedKey = (key: string) => {
+      const record = this.accessRecords[key];
+      return !!record && this.isProtected(record);
+    };
+    const probationTime = (key: string) => {
+      const record = this.accessRecords[key];
+      return Math.max(record?.lastAccess || 0, record?.rank || 0);
+    };
+
+    const probationKeys = keys.filter(key => !isProtectedKey(key));
+    const protectedKeys = keys.filter(key => isProtectedKey(key));
+
+    return [
+      ...this.sortKeysByLRU(probationKeys).sort((a, b) => probationTime(a) - probationTime(b)),
+      ...this.sortKeysByLRU(protectedKeys)
+    ];
+  }
+
+  /**
+   * 按淘汰顺序选中重要数据时的原因说明
+   */
+  protected getEvictionReason(key: string): string {
+    const record = this.accessRecords[key];
+    return record && this.isProtected(record)
+      ? '保护段中最近最少使用'
+      : '试用段中最近最少使用（写入后未再访问）';
+  }
+
+  /**
+   * 保护段超出容量时，将其中最久未访问的键降级到试用段的最近使用端
+   */
+  private rebalanceSegments(): void {
+    const allKeys = Object.keys(this.accessRecords);
+    const protectedKeys = allKeys.filter(key => this.isProtected(this.accessRecords[key]));
+    const limit = Math.ceil(Math.max(allKeys.length, this.config.maxRecords) * this.protectedRatio);
+
+    if (protectedKeys.length <= limit) {
+      return;
+    }
+
+    const now = Utils.now();
+    const demotedKeys = this.sortKeysByLRU(protectedKeys).slice(0, protectedKeys.length - limit);
+    for (const key of demotedKeys) {
+      this.accessRecords[key].flags = (this.accessRecords[key].flags || 0) & ~PROTECTED_FLAG;
+      this.accessRecords[key].rank = now;
+    }
+
+    if (this.config.debug) {
+      console.log(`[SLRU] Demoted ${demotedKeys.length} keys to probation segment`);
+    }
+  }
+
+  /**
+   * 是否在保护段
+   */
+  private isProtected(record: IAccessRecord): boolean {
+    return ((record.flags || 0) & PROTECTED_FLAG) !== 0;
+  }
+}
\ No newline at end of file
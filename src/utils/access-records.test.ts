@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { IAccessRecord } from '../interfaces';
+import { Utils } from './index';
+
+// 时间取整秒、大小取整KB，v3 的精度下可以无损往返
+const NOW = 1700000000000;
+const HOUR = 60 * 60 * 1000;
+
+const records: Record<string, IAccessRecord> = {
+  user_profile: { lastAccess: NOW, accessCount: 12, size: 2048 },
+  cache_list: { lastAccess: NOW - 60 * 1000, accessCount: 3, size: 10240, expiresAt: NOW + HOUR },
+  draft: { lastAccess: NOW - 24 * HOUR, accessCount: 1, size: 1024, flags: 1 }
+};
+
+// v0 没有过期时间和状态位
+const basicRecords: Record<string, IAccessRecord> = Object.fromEntries(
+  Object.entries(records).map(([key, { lastAccess, accessCount, size }]) => [key, { lastAccess, accessCount, size }])
+);
+
+const v0 = JSON.stringify(
+  Object.fromEntries(Object.entries(basicRecords).map(([key, r]) => [key, [r.lastAccess, r.accessCount, r.size]]))
+);
+
+const v2 = JSON.stringify({
+  v: 2,
+  t: NOW,
+  k: { 0: 'user_profile', 1: 'cache_list', 2: 'draft' },
+  d: {
+    0: [0, 12, 2048],
+    1: [60 * 1000, 3, 10240],
+    2: [24 * HOUR, 1, 1024]
+  },
+  ex: { 1: HOUR },
+  f: { 2: 1 }
+});
+
+const v3 = Utils.compressAccessRecords(records, { maxEntries: Infinity }).compressed;
+
+const versionOf = (data: string): number => JSON.parse(data).v ?? 0;
+
+// 已发布的旧版SDK中的 v2 解码逻辑（原样保留），回滚后由它读取降级的数据
+const decodeReleasedV2 = (data: string): Record<string, IAccessRecord> => {
+  const parsed = JSON.parse(data);
+  const result: Record<string, IAccessRecord> = {};
+  const { t: timeBase, k: keyMap, d: compressedData } = parsed;
+
+  for (const [shortKey, entry] of Object.entries(compressedData)) {
+    const originalKey = keyMap[shortKey];
+    if (originalKey && Array.isArray(entry) && entry.length === 3) {
+      result[originalKey] = {
+        lastAccess: timeBase - entry[0],
+        accessCount: entry[1],
+        size: entry[2]
+      };
+    }
+  }
+
+  return result;
+};
+
+describe('access record formats', () => {
+  it.each([
+    ['v0', v0, basicRecords],
+    ['v2', v2, records],
+    ['v3', v3, records]
+  ])('decodes %s', (_, data, expected) => {
+    expect(Utils.decompressAccessRecords(data)).toEqual(expected);
+  });
+
+  it.each([
+    ['v0', v0, basicRecords],
+    ['v2', v2, records]
+  ])('upgrades %s to v3', (_, data, expected) => {
+    const upgraded = Utils.migrateAccessRecords(data, 3);
+
+    expect(versionOf(upgraded)).toBe(3);
+    expect(Utils.decompressAccessRecords(upgraded)).toEqual(expected);
+  });
+
+  it.each([
+    [2, records],
+    [0, basicRecords]
+  ])('downgrades v3 to v%i and back', (version, expected) => {
+    const downgraded = Utils.migrateAccessRecords(v3, version);
+    expect(versionOf(downgraded)).toBe(version);
+    expect(Utils.decompressAccessRecords(downgraded)).toEqual(expected);
+
+    const upgraded = Utils.migrateAccessRecords(downgraded, 3);
+    expect(versionOf(upgraded)).toBe(3);
+    expect(Utils.decompressAccessRecords(upgraded)).toEqual(expected);
+  });
+
+  it('downgrades to a v2 that the released decoder reads completely', () => {
+    expect(decodeReleasedV2(Utils.migrateAccessRecords(v3, 2))).toEqual(basicRecords);
+    expect(decodeReleasedV2(v2)).toEqual(basicRecords);
+  });
+
+  it('downgrades v2 to v0 and back', () => {
+    const downgraded = Utils.migrateAccessRecords(v2, 0);
+    expect(versionOf(downgraded)).toBe(0);
+    expect(Utils.decompressAccessRecords(Utils.migrateAccessRecords(downgraded, 2))).toEqual(basicRecords);
+  });
+
+  it('keeps pinned keys, sketch, epoch and detached expiries through v2', () => {
+    const data = Utils.compressAccessRecords(records, {
+      maxEntries: Infinity,
+      pinnedKeys: ['offline_bundle'],
+      sketch: '4.1.0.AAAAAA.AAAAAAAAAAA',
+      epoch: NOW - HOUR,
+      expiries: { excluded_key: NOW + 2 * HOUR }
+    }).compressed;
+
+    const roundTrip = Utils.migrateAccessRecords(Utils.migrateAccessRecords(data, 2), 3);
+
+    expect(Utils.decompressAccessRecords(roundTrip)).toEqual(records);
+    expect(Utils.decompressPinnedKeys(roundTrip)).toEqual(['offline_bundle']);
+    expect(Utils.decompressSketch(roundTrip)).toBe('4.1.0.AAAAAA.AAAAAAAAAAA');
+    expect(Utils.decompressRecordsEpoch(roundTrip)).toBe(NOW - HOUR);
+    expect(Utils.decompressExpiries(roundTrip)).toEqual({ excluded_key: NOW + 2 * HOUR });
+  });
+
+  it('keeps ranks within v3 and saves expiries of truncated records', () => {
+    const ranked = { ...records, user_profile: { ...records.user_profile, rank: 0.125 } };
+    const data = Utils.compressAccessRecords(ranked, {
+      maxEntries: 2,
+      score: key => (key === 'cache_list' ? 1 : 0)
+    }).compressed;
+
+    expect(Utils.decompressAccessRecords(data)).toEqual({ user_profile: ranked.user_profile, draft: records.draft });
+    expect(Utils.decompressExpiries(data)).toEqual({ cache_list: NOW + HOUR });
+  });
+
+  it('treats unknown versions and broken data as invalid', () => {
+    expect(Utils.tryDecompressAccessRecords(JSON.stringify({ v: 99, t: 0, k: [], b: '' }))).toBeNull();
+    expect(Utils.tryDecompressAccessRecords('{"v":3,')).toBeNull();
+    expect(Utils.tryDecompressAccessRecords('{}')).toEqual({});
+    expect(() => Utils.migrateAccessRecords(v3, 1)).toThrow();
+  });
+});
\ No newline at end of file
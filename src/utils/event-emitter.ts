@@ -0,0 +1,66 @@
+/**
+ * 类型安全的事件发射器
+ */
+export class EventEmitter<Events extends { [event: string]: any }> {
+  private listeners: { [K in keyof Events]?: Array<(payload: Events[K]) => unknown> } = {};
+
+  /**
+   * 监听事件，返回取消监听的函数
+   */
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => unknown): () => void {
+    const listeners = this.listeners[event] || (this.listeners[event] = []);
+    listeners.push(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 取消监听
+   */
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => unknown): void {
+    const listeners = this.listeners[event];
+    if (!listeners) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * 触发事件，返回各监听器的返回值
+   * 监听器抛出的错误不会影响其他监听器和调用方
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): unknown[] {
+    const listeners = this.listeners[event];
+    if (!listeners || listeners.length === 0) {
+      return [];
+    }
+
+    const results: unknown[] = [];
+    for (const listener of listeners.slice()) {
+      try {
+        results.push(listener(payload));
+      } catch (error) {
+        console.warn(`[EventEmitter] Listener for "${String(event)}" failed:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 是否存在监听器
+   */
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.listeners[event]?.length || 0) > 0;
+  }
+
+  /**
+   * 移除所有监听器
+   */
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
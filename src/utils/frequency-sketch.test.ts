@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { FrequencySketch } from './frequency-sketch';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1700000000000;
+
+describe('FrequencySketch', () => {
+  it('estimates counts and the end of the last access day', () => {
+    const sketch = new FrequencySketch();
+    sketch.record('user_profile', NOW - 2 * DAY);
+    sketch.record('user_profile', NOW - DAY);
+    sketch.record('user_profile', NOW - DAY);
+
+    expect(sketch.estimateCount('user_profile')).toBe(3);
+    expect(sketch.estimateCount('unknown')).toBe(0);
+
+    const lastAccess = sketch.estimateLastAccess('user_profile')!;
+    expect(lastAccess).toBeGreaterThanOrEqual(NOW - DAY);
+    expect(lastAccess).toBeLessThan(NOW - DAY + DAY);
+    expect(sketch.estimateLastAccess('unknown')).toBeNull();
+  });
+
+  it('halves all counts after ten additions per counter', () => {
+    const sketch = new FrequencySketch(16, 1);
+    for (let i = 0; i < 159; i++) {
+      sketch.record('hot', NOW);
+    }
+    expect(sketch.estimateCount('hot')).toBe(159);
+
+    sketch.record('hot', NOW);
+    expect(sketch.estimateCount('hot')).toBe(80);
+  });
+
+  it('round-trips through serialization and merges sketches of the same size', () => {
+    const local = new FrequencySketch(64, 2);
+    local.record('cache_list', NOW - DAY);
+    local.record('cache_list', NOW - DAY);
+
+    const other = new FrequencySketch(64, 2);
+    other.record('cache_list', NOW);
+
+    const restored = FrequencySketch.deserialize(local.serialize())!;
+    expect(restored.serialize()).toBe(local.serialize());
+
+    expect(restored.merge(other)).toBe(true);
+    // 按计数器取较大值：次数来自本地，日期来自另一个草图
+    expect(restored.estimateCount('cache_list')).toBe(2);
+    expect(restored.estimateLastAccess('cache_list')).toBe(other.estimateLastAccess('cache_list'));
+
+    expect(restored.merge(new FrequencySketch(128, 2))).toBe(false);
+    expect(FrequencySketch.deserialize('64.2.0.AAAA.AAAA')).toBeNull();
+  });
+});
\ No newline at end of file
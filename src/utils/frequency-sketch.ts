@@ -0,0 +1,176 @@
+import { Utils } from './index';
+
+/**
+ * 频率草图（Count-Min Sketch，按 TinyLFU 的方式定期减半）
+ * 用固定大小的计数器估算任意多个键的访问次数和最近访问日期，占用空间与键的数量无关。
+ * 估算的访问次数只会偏高，最近访问日期只会偏晚，因此不会让键被提前清理
+ */
+export class FrequencySketch {
+  private width: number;
+  private depth: number;
+  private counts: Uint8Array;
+  private lastSeenDays: Uint16Array;
+  private additions = 0;
+
+  /**
+   * @param width 每行的计数器数量，默认512
+   * @param depth 哈希函数（行）的数量，默认4
+   */
+  constructor(width: number = 512, depth: number = 4) {
+    this.width = Math.max(16, Math.floor(width));
+    this.depth = Math.max(1, Math.min(8, Math.floor(depth)));
+    this.counts = new Uint8Array(this.width * this.depth);
+    this.lastSeenDays = new Uint16Array(this.width * this.depth);
+  }
+
+  /**
+   * 记录一次访问
+   */
+  record(key: string, time: number = Utils.now()): void {
+    const day = FrequencySketch.toDay(time);
+
+    for (const index of this.getIndexes(key)) {
+      if (this.counts[index] < 255) {
+        this.counts[index]++;
+      }
+      if (this.lastSeenDays[index] < day) {
+        this.lastSeenDays[index] = day;
+      }
+    }
+
+    // 累计访问达到计数器总数的10倍后全部减半，旧的热点逐渐失去优势
+    if (++this.additions >= this.width * 10) {
+      this.halve();
+    }
+  }
+
+  /**
+   * 估算访问次数，从未记录过的键返回0
+   */
+  estimateCount(key: string): number {
+    let min = 255;
+    for (const index of this.getIndexes(key)) {
+      min = Math.min(min, this.counts[index]);
+    }
+    return min;
+  }
+
+  /**
+   * 估算最近访问时间（毫秒，精确到天，取当天结束时间且不晚于现在），从未记录过的键返回null
+   */
+  estimateLastAccess(key: string): number | null {
+    let min = 0xffff;
+    for (const index of this.getIndexes(key)) {
+      min = Math.min(min, this.lastSeenDays[index]);
+    }
+    return min === 0 ? null : Math.min(Utils.now(), (min + 1) * FrequencySketch.DAY - 1);
+  }
+
+  /**
+   * 合并另一个草图（如其他标签页保存的），逐个计数器取较大值
+   * 尺寸不同时无法合并，返回false
+   */
+  merge(other: FrequencySketch): boolean {
+    if (other.width !== this.width || other.depth !== this.depth) {
+      return false;
+    }
+
+    for (let i = 0; i < this.counts.length; i++) {
+      this.counts[i] = Math.max(this.counts[i], other.counts[i]);
+      this.lastSeenDays[i] = Math.max(this.lastSeenDays[i], other.lastSeenDays[i]);
+    }
+    this.additions = Math.max(this.additions, other.additions);
+    return true;
+  }
+
+  /**
+   * 序列化为字符串：`宽度.行数.累计次数.计数器(base64).最近访问日期(base64，小端)`
+   */
+  serialize(): string {
+    const days: number[] = [];
+    for (const day of this.lastSeenDays) {
+      days.push(day & 0xff, day >> 8);
+    }
+
+    return [
+      this.width,
+      this.depth,
+      this.additions,
+      Utils.bytesToBase64(Array.from(this.counts)),
+      Utils.bytesToBase64(days)
+    ].join('.');
+  }
+
+  /**
+   * 从序列化的字符串恢复，数据无效时返回null
+   */
+  static deserialize(data: string): FrequencySketch | null {
+    try {
+      const [width, depth, additions, counts, days] = data.split('.');
+      const sketch = new FrequencySketch(Number(width), Number(depth));
+      const countBytes = Utils.base64ToBytes(counts);
+      const dayBytes = Utils.base64ToBytes(days);
+
+      if (sketch.width !== Number(width) || sketch.depth !== Number(depth) ||
+          countBytes.length !== sketch.counts.length || dayBytes.length !== sketch.lastSeenDays.length * 2) {
+        return null;
+      }
+
+      sketch.counts.set(countBytes);
+      for (let i = 0; i < sketch.lastSeenDays.length; i++) {
+        sketch.lastSeenDays[i] = dayBytes[i * 2] | (dayBytes[i * 2 + 1] << 8);
+      }
+      sketch.additions = Number(additions) || 0;
+      return sketch;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 所有访问次数减半
+   */
+  private halve(): void {
+    for (let i = 0; i < this.counts.length; i++) {
+      this.counts[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  /**
+   * 计算键在每一行中的计数器位置（双重哈希）
+   */
+  private getIndexes(key: string): number[] {
+    const h1 = FrequencySketch.hash(key, 0x811c9dc5);
+    const h2 = FrequencySketch.hash(key, 0x01000193) | 1;
+    const indexes: number[] = [];
+
+    for (let row = 0; row < this.depth; row++) {
+      const column = (h1 + Math.imul(row, h2)) >>> 0;
+      indexes.push(row * this.width + (column % this.width));
+    }
+
+    return indexes;
+  }
+
+  /**
+   * FNV-1a 32位哈希
+   */
+  private static hash(key: string, seed: number): number {
+    let hash = seed >>> 0;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * 转换为天数（自1970年起），0保留表示未记录
+   */
+  private static toDay(time: number): number {
+    return Math.min(0xffff, Math.max(1, Math.floor(time / FrequencySketch.DAY)));
+  }
+
+  private static readonly DAY = 24 * 60 * 60 * 1000;
+}
\ No newline at end of file
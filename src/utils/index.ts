@@ -1,4 +1,34 @@
-import { IAccessRecord } from '../interfaces';
+import { IAccessRecord, IScoringContext, KeyPattern, PriorityTier, PriorityTierPatterns } from '../interfaces';
+import { MigrationRegistry } from './migration-registry';
+
+export { EventEmitter } from './event-emitter';
+export { FrequencySketch } from './frequency-sketch';
+export { MigrationRegistry } from './migration-registry';
+
+/**
+ * 访问记录 v3 格式的时间单位（毫秒）
+ */
+const ACCESS_RECORD_TIME_UNIT = 1000;
+
+/**
+ * 访问记录 v3 格式的大小分桶（字节）
+ */
+const ACCESS_RECORD_SIZE_BUCKET = 1024;
+
+/**
+ * 访问记录的当前格式版本
+ */
+const ACCESS_RECORD_VERSION = 3;
+
+/**
+ * 访问记录校验封装的前缀（含封装版本号）
+ */
+const CHECKSUM_ENVELOPE_PREFIX = '#1:';
+
+/**
+ * CRC32 查找表，首次使用时生成
+ */
+let crc32Table: Uint32Array | null = null;
 
 /**
  * 工具类
@@ -8,72 +38,155 @@ export class Utils {
    * 计算字符串的字节大小
    */
   static getStringByteSize(str: string): number {
-    return new Blob([str]).size;
+    // 按UTF-8编码逐字符计算，不依赖Blob，便于在Node环境中运行
+    let size = 0;
+
+    for (let i = 0; i < str.length; i++) {
+      const code = str.charCodeAt(i);
+
+      if (code < 0x80) {
+        size += 1;
+      } else if (code < 0x800) {
+        size += 2;
+      } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+        const next = str.charCodeAt(i + 1);
+        if (next >= 0xdc00 && next <= 0xdfff) {
+          // 代理对，4字节
+          size += 4;
+          i++;
+        } else {
+          size += 3;
+        }
+      } else {
+        size += 3;
+      }
+    }
+
+    return size;
   }
 
   /**
-   * 高级压缩访问记录数据
-   * 使用多种优化策略：
-   * 1. 时间戳相对化（减少数字大小）
-   * 2. 键名映射（减少重复字符串）
-   * 3. 数据分层存储（频繁访问vs不频繁访问）
-   * 4. 位运算优化小数值
+   * 压缩访问记录数据（v3 格式，规范见 DESIGN.md「访问记录格式 v3」）
+   * 1. 键名保存在数组中，数值字段打包为 varint 二进制并以 base64 编码
+   * 2. 时间戳以秒为单位，按访问时间从新到旧排列后逐条记录差值
+   * 3. 大小按KB分桶，过期时间记录相对基准点的偏移
    */
   static compressAccessRecords(
     records: Record<string, IAccessRecord>,
-    options: { debug?: boolean; maxEntries?: number } = {}
+    options: {
+      debug?: boolean;
+      maxEntries?: number;
+      score?: (key: string, record: IAccessRecord) => number;
+      pinnedKeys?: string[];
+      sketch?: string;
+      epoch?: number;
+      expiries?: Record<string, number>;
+    } = {}
   ): { compressed: string; debug?: string } {
     try {
-      const { debug = false, maxEntries = 1000 } = options;
-
-      // 1. 按访问频率和时间排序，只保留最重要的记录
-      const sortedEntries = Object.entries(records)
-        .sort(([, a], [, b]) => {
-          // 计算权重：最近访问时间 + 访问次数权重
-          const weightA = a.lastAccess + (a.accessCount * 60000); // 每次访问相当于1分钟
-          const weightB = b.lastAccess + (b.accessCount * 60000);
-          return weightB - weightA;
-        })
-        .slice(0, maxEntries);
-
-      // 2. 创建键名映射表（减少重复字符串）
-      const keyMap: Record<string, string> = {};
-      const reverseKeyMap: Record<string, string> = {};
-      let keyIndex = 0;
-
-      for (const [key] of sortedEntries) {
-        const shortKey = this.encodeKeyIndex(keyIndex++);
-        keyMap[key] = shortKey;
-        reverseKeyMap[shortKey] = key;
+      const context = Utils.createScoringContext(records);
+      const {
+        debug = false,
+        maxEntries = 1000,
+        score = (key: string, record: IAccessRecord) => Utils.defaultEvictionScore(key, record, context)
+      } = options;
+
+      // 1. 按淘汰评分排序，分数越低越重要，超出数量限制时保留最重要的记录
+      const scores = new Map(Object.entries(records).map(([key, record]) => [key, score(key, record)]));
+      const rankedEntries = Object.entries(records).sort(([a], [b]) => scores.get(a)! - scores.get(b)!);
+      const keptEntries = rankedEntries.slice(0, maxEntries);
+
+      // 超出数量限制的记录不保存，但过期时间和没有记录的键的过期时间一起单独保存，不会丢失
+      const expiries: Record<string, number> = { ...options.expiries };
+      for (const [key, record] of rankedEntries.slice(maxEntries)) {
+        if (record.expiresAt !== undefined) {
+          expiries[key] = record.expiresAt;
+        }
       }
 
-      // 3. 时间戳基准点（使用最新的访问时间作为基准）
-      const timeBase = Math.max(...sortedEntries.map(([, record]) => record.lastAccess));
+      // 2. 按访问时间从新到旧排列，相邻记录的时间差都是较小的非负数
+      const toUnit = (time: number) => Math.floor(time / ACCESS_RECORD_TIME_UNIT);
+      const sortedEntries = keptEntries.slice().sort(([, a], [, b]) => b.lastAccess - a.lastAccess);
+      const timeBase = sortedEntries.length > 0 ? toUnit(sortedEntries[0][1].lastAccess) : 0;
+
+      // 3. 逐条写入 varint
+      const bytes: number[] = [];
+      let previousTime = timeBase;
+
+      for (const [, record] of sortedEntries) {
+        const time = toUnit(record.lastAccess);
+        const hasExpiry = record.expiresAt !== undefined;
+        const hasFlags = !!record.flags;
+
+        this.writeVarint(bytes, previousTime - time);
+        this.writeVarint(bytes, Math.max(1, record.accessCount) * 4 + (hasExpiry ? 1 : 0) + (hasFlags ? 2 : 0));
+        this.writeVarint(bytes, Math.ceil(Math.max(0, record.size) / ACCESS_RECORD_SIZE_BUCKET));
 
-      // 4. 压缩数据结构
-      const compressed = {
-        v: 2, // 版本号
-        t: timeBase, // 时间基准点
-        k: reverseKeyMap, // 键映射表
-        d: {} as Record<string, number[]> // 压缩数据
+        if (hasExpiry) {
+          // 过期时间向上取整，避免提前过期
+          const expiresOffset = Math.ceil(record.expiresAt! / ACCESS_RECORD_TIME_UNIT) - timeBase;
+          this.writeVarint(bytes, this.zigzagEncode(expiresOffset));
+        }
+        if (hasFlags) {
+          this.writeVarint(bytes, record.flags!);
+        }
+
+        previousTime = time;
+      }
+
+      const compressed: {
+        v: number;
+        t: number;
+        k: string[];
+        b: string;
+        r?: Record<string, number>;
+        x?: Record<string, number>;
+        p?: string[];
+        s?: string;
+        e?: number;
+      } = {
+        v: 3, // 版本号
+        t: timeBase, // 时间基准点（秒）
+        k: sortedEntries.map(([key]) => key), // 键名，与二进制数据中的记录一一对应
+        b: this.bytesToBase64(bytes) // 打包的数值字段
       };
 
-      // 5. 数据压缩和编码
-      for (const [key, record] of sortedEntries) {
-        const shortKey = keyMap[key];
-        const timeDiff = timeBase - record.lastAccess; // 相对时间（总是正数）
-
-        // 使用位运算压缩小数值
-        compressed.d[shortKey] = [
-          timeDiff, // 相对时间差
-          record.accessCount,
-          record.size
-        ];
+      // 排序基准按记录序号稀疏保存，保持完整精度
+      const ranks: Record<string, number> = {};
+      sortedEntries.forEach(([, record], index) => {
+        if (typeof record.rank === 'number' && Number.isFinite(record.rank)) {
+          ranks[index] = record.rank;
+        }
+      });
+      if (Object.keys(ranks).length > 0) {
+        compressed.r = ranks;
+      }
+
+      // 单独保存的过期时间（秒），与记录中的过期时间一样向上取整
+      if (Object.keys(expiries).length > 0) {
+        compressed.x = Object.fromEntries(
+          Object.entries(expiries).map(([key, expiresAt]) => [key, Math.ceil(expiresAt / ACCESS_RECORD_TIME_UNIT)])
+        );
+      }
+
+      // 固定的键单独保存完整键名，没有访问记录的键也可以固定
+      if (options.pinnedKeys && options.pinnedKeys.length > 0) {
+        compressed.p = options.pinnedKeys;
+      }
+
+      // 频率草图保存超出数量限制的键的近似访问次数和访问日期
+      if (options.sketch) {
+        compressed.s = options.sketch;
+      }
+
+      // 记录纪元（如 LFU 上次衰减的时间），合并其他标签页的记录时据此对齐
+      if (options.epoch !== undefined) {
+        compressed.e = options.epoch;
       }
 
       const compressedStr = JSON.stringify(compressed);
 
-      // 6. 调试信息
+      // 4. 调试信息
       let debugInfo: string | undefined;
       if (debug) {
         debugInfo = JSON.stringify({
@@ -82,16 +195,15 @@ export class Utils {
           originalSize: JSON.stringify(records).length,
           compressedSize: compressedStr.length,
           compressionRatio: (compressedStr.length / JSON.stringify(records).length * 100).toFixed(2) + '%',
-          timeBase: Utils.formatDate(timeBase),
-          keyMappings: Object.keys(keyMap).length,
+          timeBase: Utils.formatDate(timeBase * ACCESS_RECORD_TIME_UNIT),
+          payloadBytes: bytes.length,
           records: Object.fromEntries(
-            sortedEntries.slice(0, 10).map(([key, record]) => [
+            keptEntries.slice(0, 10).map(([key, record]) => [
               key,
               {
                 ...record,
                 lastAccessTime: Utils.formatDate(record.lastAccess),
-                weight: record.lastAccess + (record.accessCount * 60000),
-                willBeDeleted: this.calculateDeletionPriority(record, records)
+                score: scores.get(key)
               }
             ])
           )
@@ -107,44 +219,344 @@ export class Utils {
 
   /**
    * 解压访问记录数据
+   * 旧格式（v2 和最早的无版本格式）通过迁移注册表逐步升级到当前格式，下次保存即写为当前格式
    */
   static decompressAccessRecords(data: string): Record<string, IAccessRecord> {
+    return this.tryDecompressAccessRecords(data) || {};
+  }
+
+  /**
+   * 解压访问记录数据，无法解析或迁移失败时返回null（而不是空记录），便于调用方回退到其他副本
+   */
+  static tryDecompressAccessRecords(data: string): Record<string, IAccessRecord> | null {
     try {
       if (!data || data === '{}') return {};
 
+      const parsed = this.getAccessRecordMigrations().migrate(JSON.parse(data), ACCESS_RECORD_VERSION);
+      return this.decompressV3Format(parsed);
+    } catch (error) {
+      console.warn('Failed to decompress access records:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 检查访问记录是否由更新版本的SDK写入（格式版本比当前更新）
+   */
+  static isNewerAccessRecordFormat(data: string): boolean {
+    try {
       const parsed = JSON.parse(data);
+      return typeof parsed?.v === 'number' && parsed.v > ACCESS_RECORD_VERSION;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 把访问记录迁移到指定的格式版本（0 表示最早的无版本格式）
+   * 用于回滚到旧版SDK前降级数据；时间和大小保持 v3 的精度（秒、KB），降级到 v0 还会丢失过期时间、状态位和固定的键
+   */
+  static migrateAccessRecords(data: string, targetVersion: number): string {
+    const parsed = data && data !== '{}' ? JSON.parse(data) : {};
+    return JSON.stringify(this.getAccessRecordMigrations().migrate(parsed, targetVersion));
+  }
+
+  /**
+   * 获取访问记录格式的迁移注册表，首次使用时创建
+   * 新增格式版本时在这里登记一步升级和降级
+   */
+  static getAccessRecordMigrations(): MigrationRegistry {
+    if (this.accessRecordMigrations) {
+      return this.accessRecordMigrations;
+    }
 
-      // 兼容旧版本格式
-      if (!parsed.v) {
-        return this.decompressLegacyFormat(parsed);
+    this.accessRecordMigrations = new MigrationRegistry(data => (typeof data?.v === 'number' ? data.v : 0))
+      .register({
+        // 无版本格式 { key: [lastAccess, accessCount, size] } -> 键名映射 + 相对时间
+        from: 0,
+        to: 2,
+        up: data => this.buildV2Format(this.decompressLegacyFormat(data)),
+        down: data => Object.fromEntries(
+          Object.entries(this.decompressV2Format(data)).map(([key, record]) => [
+            key,
+            [record.lastAccess, record.accessCount, record.size]
+          ])
+        )
+      })
+      .register({
+        // v2 -> varint 二进制，保留固定的键和频率草图
+        from: 2,
+        to: 3,
+        up: data => JSON.parse(this.compressAccessRecords(this.decompressV2Format(data), {
+          maxEntries: Infinity,
+          pinnedKeys: data.p,
+          sketch: data.s,
+          epoch: data.e,
+          expiries: this.decodeExpiries(data.x)
+        }).compressed),
+        down: data => this.buildV2Format(this.decompressV3Format(data), { p: data.p, s: data.s, e: data.e, x: data.x })
+      });
+
+    return this.accessRecordMigrations;
+  }
+
+  private static accessRecordMigrations: MigrationRegistry | null = null;
+
+  /**
+   * 生成 v2 格式的数据
+   * d 中每条记录与已发布的 v2 一致，固定为 [时间差, 次数, 大小] 三项，旧版SDK可以直接读取；
+   * 过期偏移和状态位放在旧版不读取的 ex、f 中，以短键名对应记录
+   */
+  private static buildV2Format(
+    records: Record<string, IAccessRecord>,
+    extra: { p?: string[]; s?: string; e?: number; x?: Record<string, number> } = {}
+  ): any {
+    const entries = Object.entries(records);
+    const timeBase = entries.length > 0 ? Math.max(...entries.map(([, record]) => record.lastAccess)) : 0;
+    const result: any = { v: 2, t: timeBase, k: {}, d: {} };
+    const expiries: Record<string, number> = {};
+    const flags: Record<string, number> = {};
+
+    entries.forEach(([key, record], index) => {
+      const shortKey = index.toString(36);
+
+      result.k[shortKey] = key;
+      result.d[shortKey] = [timeBase - record.lastAccess, record.accessCount, record.size];
+
+      if (record.expiresAt !== undefined) {
+        expiries[shortKey] = record.expiresAt - timeBase;
       }
+      if (record.flags) {
+        flags[shortKey] = record.flags;
+      }
+    });
+
+    if (Object.keys(expiries).length > 0) {
+      result.ex = expiries;
+    }
+    if (Object.keys(flags).length > 0) {
+      result.f = flags;
+    }
+    if (extra.p && extra.p.length > 0) {
+      result.p = extra.p;
+    }
+    if (extra.s) {
+      result.s = extra.s;
+    }
+    if (typeof extra.e === 'number') {
+      result.e = extra.e;
+    }
+    if (extra.x && Object.keys(extra.x).length > 0) {
+      result.x = extra.x;
+    }
+
+    return result;
+  }
+
+  /**
+   * 解压 v3 格式
+   */
+  private static decompressV3Format(data: any): Record<string, IAccessRecord> {
+    const records: Record<string, IAccessRecord> = {};
+    const keys: unknown[] = Array.isArray(data.k) ? data.k : [];
+    const bytes = this.base64ToBytes(typeof data.b === 'string' ? data.b : '');
+    const timeBase = Number(data.t) || 0;
+    const ranks = data.r && typeof data.r === 'object' ? data.r : {};
+    const cursor = { offset: 0 };
+    let time = timeBase;
+
+    for (const [index, key] of keys.entries()) {
+      if (cursor.offset >= bytes.length) {
+        break;
+      }
+
+      time -= this.readVarint(bytes, cursor);
+      const countAndMask = this.readVarint(bytes, cursor);
+      const sizeBucket = this.readVarint(bytes, cursor);
+      const record: IAccessRecord = {
+        lastAccess: time * ACCESS_RECORD_TIME_UNIT,
+        accessCount: Math.floor(countAndMask / 4),
+        size: sizeBucket * ACCESS_RECORD_SIZE_BUCKET
+      };
+
+      if (countAndMask % 2 === 1) {
+        record.expiresAt = (timeBase + this.zigzagDecode(this.readVarint(bytes, cursor))) * ACCESS_RECORD_TIME_UNIT;
+      }
+      if (Math.floor(countAndMask / 2) % 2 === 1) {
+        record.flags = this.readVarint(bytes, cursor);
+      }
+      if (typeof ranks[index] === 'number') {
+        record.rank = ranks[index];
+      }
+
+      if (typeof key === 'string') {
+        records[key] = record;
+      }
+    }
 
-      // 新版本格式
-      if (parsed.v === 2) {
-        const records: Record<string, IAccessRecord> = {};
-        const { t: timeBase, k: keyMap, d: compressedData } = parsed;
-
-        for (const [shortKey, data] of Object.entries(compressedData)) {
-          const originalKey = keyMap[shortKey];
-          if (originalKey && Array.isArray(data) && data.length === 3) {
-            records[originalKey] = {
-              lastAccess: timeBase - data[0], // 恢复绝对时间
-              accessCount: data[1],
-              size: data[2]
-            };
-          }
+    return records;
+  }
+
+  /**
+   * 解压 v2 格式（键名映射 + 数组，过期偏移和状态位在 ex、f 中）
+   */
+  private static decompressV2Format(data: any): Record<string, IAccessRecord> {
+    const records: Record<string, IAccessRecord> = {};
+    const { t: timeBase, k: keyMap, d: compressedData, ex: expiries, f: flags } = data;
+
+    for (const [shortKey, entry] of Object.entries(compressedData || {})) {
+      const originalKey = keyMap?.[shortKey];
+      if (originalKey && Array.isArray(entry) && entry.length === 3) {
+        records[originalKey] = {
+          lastAccess: timeBase - entry[0], // 恢复绝对时间
+          accessCount: entry[1],
+          size: entry[2]
+        };
+
+        if (typeof expiries?.[shortKey] === 'number') {
+          records[originalKey].expiresAt = timeBase + expiries[shortKey];
         }
+        if (typeof flags?.[shortKey] === 'number' && flags[shortKey] !== 0) {
+          records[originalKey].flags = flags[shortKey];
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * 为访问记录加上序号和校验和：`#1:序号:CRC32:数据`
+   * 序号用于在A/B两个槽位之间找出最新的一份
+   */
+  static wrapWithChecksum(payload: string, sequence: number): string {
+    return `${CHECKSUM_ENVELOPE_PREFIX}${sequence}:${this.crc32(payload)}:${payload}`;
+  }
+
+  /**
+   * 拆开校验封装，校验失败或封装版本未知时返回null
+   * 没有封装的旧数据原样返回，序号为0
+   */
+  static unwrapChecksum(data: string): { payload: string; sequence: number } | null {
+    if (!data.startsWith('#')) {
+      return { payload: data, sequence: 0 };
+    }
+
+    if (!data.startsWith(CHECKSUM_ENVELOPE_PREFIX)) {
+      return null;
+    }
+
+    const match = /^(\d+):([0-9a-f]{8}):/.exec(data.slice(CHECKSUM_ENVELOPE_PREFIX.length));
+    if (!match) {
+      return null;
+    }
+
+    const payload = data.slice(CHECKSUM_ENVELOPE_PREFIX.length + match[0].length);
+    if (this.crc32(payload) !== match[2]) {
+      return null;
+    }
+
+    return { payload, sequence: Number(match[1]) };
+  }
 
-        return records;
+  /**
+   * 计算字符串的 CRC32（按 UTF-16 码元的低、高字节），返回8位十六进制
+   */
+  static crc32(str: string): string {
+    if (!crc32Table) {
+      crc32Table = new Uint32Array(256);
+      for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crc32Table[i] = c >>> 0;
       }
+    }
 
-      return {};
+    let crc = 0xffffffff;
+    for (let i = 0; i < str.length; i++) {
+      const code = str.charCodeAt(i);
+      crc = crc32Table[(crc ^ code) & 0xff] ^ (crc >>> 8);
+      crc = crc32Table[(crc ^ (code >>> 8)) & 0xff] ^ (crc >>> 8);
+    }
+
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * 从压缩数据中读取序列化的频率草图
+   */
+  static decompressSketch(data: string): string | null {
+    try {
+      if (!data || data === '{}') return null;
+
+      const parsed = JSON.parse(data);
+      return typeof parsed.s === 'string' ? parsed.s : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 从压缩数据中读取记录纪元，没有时返回null
+   */
+  static decompressRecordsEpoch(data: string): number | null {
+    try {
+      if (!data || data === '{}') return null;
+
+      const parsed = JSON.parse(data);
+      return typeof parsed.e === 'number' && Number.isFinite(parsed.e) ? parsed.e : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 从压缩数据中读取单独保存的过期时间（毫秒）
+   */
+  static decompressExpiries(data: string): Record<string, number> {
+    try {
+      if (!data || data === '{}') return {};
+
+      return this.decodeExpiries(JSON.parse(data).x);
     } catch (error) {
-      console.warn('Failed to decompress access records:', error);
       return {};
     }
   }
 
+  /**
+   * 解码 x 字段：键名到过期时间（秒）的映射
+   */
+  private static decodeExpiries(value: unknown): Record<string, number> {
+    const expiries: Record<string, number> = {};
+    if (!value || typeof value !== 'object') {
+      return expiries;
+    }
+
+    for (const [key, seconds] of Object.entries(value)) {
+      if (typeof seconds === 'number' && Number.isFinite(seconds)) {
+        expiries[key] = seconds * ACCESS_RECORD_TIME_UNIT;
+      }
+    }
+
+    return expiries;
+  }
+
+  /**
+   * 从压缩数据中读取固定的键
+   */
+  static decompressPinnedKeys(data: string): string[] {
+    try {
+      if (!data || data === '{}') return [];
+
+      const parsed = JSON.parse(data);
+      return Array.isArray(parsed.p) ? parsed.p.filter((key: unknown) => typeof key === 'string') : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
   /**
    * 兼容旧版本格式的解压
    */
@@ -165,38 +577,96 @@ export class Utils {
   }
 
   /**
-   * 编码键索引为短字符串
+   * 写入无符号 varint：每字节低7位为数据，最高位表示后面还有字节
+   * 使用算术运算而不是位运算，支持超过32位的整数
    */
-  private static encodeKeyIndex(index: number): string {
-    const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    let num = index;
+  private static writeVarint(bytes: number[], value: number): void {
+    let remaining = Math.max(0, Math.floor(value));
 
-    do {
-      result = chars[num % chars.length] + result;
-      num = Math.floor(num / chars.length);
-    } while (num > 0);
+    while (remaining >= 0x80) {
+      bytes.push((remaining % 0x80) + 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
 
-    return result;
+    bytes.push(remaining);
+  }
+
+  /**
+   * 读取无符号 varint，并移动读取位置
+   */
+  private static readVarint(bytes: Uint8Array, cursor: { offset: number }): number {
+    let value = 0;
+    let multiplier = 1;
+
+    while (cursor.offset < bytes.length) {
+      const byte = bytes[cursor.offset++];
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+
+    throw new Error('Truncated varint in access records');
+  }
+
+  /**
+   * zigzag 编码，把有符号整数映射为无符号整数（0, -1, 1, -2 → 0, 1, 2, 3）
+   */
+  private static zigzagEncode(value: number): number {
+    return value >= 0 ? value * 2 : -value * 2 - 1;
+  }
+
+  /**
+   * zigzag 解码
+   */
+  private static zigzagDecode(value: number): number {
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
   }
 
   /**
-   * 计算删除优先级
+   * 字节数组编码为 base64
    */
-  private static calculateDeletionPriority(
-    record: IAccessRecord,
-    allRecords: Record<string, IAccessRecord>
-  ): number {
-    const now = Date.now();
-    const timeSinceLastAccess = now - record.lastAccess;
-    const avgAccessCount = Object.values(allRecords)
-      .reduce((sum, r) => sum + r.accessCount, 0) / Object.keys(allRecords).length;
+  static bytesToBase64(bytes: number[]): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.slice(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
 
-    // 优先级分数：时间权重 + 访问频率权重
-    const timeWeight = timeSinceLastAccess / (24 * 60 * 60 * 1000); // 天数
-    const accessWeight = Math.max(0, avgAccessCount - record.accessCount);
+  /**
+   * base64 解码为字节数组
+   */
+  static base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
 
-    return timeWeight + accessWeight;
+  /**
+   * 默认淘汰评分：越久未访问分数越高，访问时间相同时访问次数越少分数越高，与LRU排序一致
+   */
+  static defaultEvictionScore(key: string, record: IAccessRecord, context: IScoringContext): number {
+    // 访问次数只贡献小于1毫秒的分数，不会改变访问时间不同的键之间的顺序
+    return (context.now - record.lastAccess) + 1 / (record.accessCount + 1);
+  }
+
+  /**
+   * 根据全部访问记录创建评分上下文
+   */
+  static createScoringContext(records: Record<string, IAccessRecord>): IScoringContext {
+    const values = Object.values(records);
+    const totalAccessCount = values.reduce((sum, record) => sum + record.accessCount, 0);
+
+    return {
+      now: Utils.now(),
+      recordCount: values.length,
+      averageAccessCount: values.length > 0 ? totalAccessCount / values.length : 0
+    };
   }
 
   /**
@@ -219,28 +689,132 @@ export class Utils {
 
 
   /**
-   * 检查key是否匹配不重要keys列表（简单字符串匹配）
+   * 检查key是否匹配不重要keys列表
    */
-  static isUnimportantKey(key: string, unimportantKeys: string[]): boolean {
-    if (!unimportantKeys || unimportantKeys.length === 0) {
+  static isUnimportantKey(key: string, unimportantKeys: KeyPattern[]): boolean {
+    return Utils.matchesKeyPattern(key, unimportantKeys);
+  }
+
+  /**
+   * 优先级层级，按重要程度从高到低排列
+   */
+  static readonly PRIORITY_TIERS: PriorityTier[] = ['critical', 'normal', 'low', 'disposable'];
+
+  /**
+   * 获取键所属的优先级层级
+   * 按重要程度从高到低匹配，未匹配时命中 unimportantKeys 的属于 low，其余属于 normal
+   */
+  static getPriorityTier(
+    key: string,
+    priorityTiers: PriorityTierPatterns | undefined,
+    unimportantKeys?: KeyPattern[]
+  ): PriorityTier {
+    if (priorityTiers) {
+      for (const tier of Utils.PRIORITY_TIERS) {
+        if (Utils.matchesKeyPattern(key, priorityTiers[tier])) {
+          return tier;
+        }
+      }
+    }
+
+    return Utils.isUnimportantKey(key, unimportantKeys || []) ? 'low' : 'normal';
+  }
+
+  /**
+   * 检查key是否匹配任意一条规则
+   */
+  static matchesKeyPattern(key: string, patterns: KeyPattern[] | undefined): boolean {
+    if (!patterns || patterns.length === 0) {
       return false;
     }
 
-    // 简单的字符串包含匹配
-    return unimportantKeys.some(pattern => key.includes(pattern));
+    return Utils.createKeyMatcher(patterns)(key);
+  }
+
+  /**
+   * 根据规则列表创建键匹配器
+   * 同一个规则数组只编译一次，数组中的规则被增删或替换时重新编译
+   */
+  static createKeyMatcher(patterns: KeyPattern[]): (key: string) => boolean {
+    const cached = Utils.keyMatcherCache.get(patterns);
+    if (
+      cached &&
+      cached.patterns.length === patterns.length &&
+      cached.patterns.every((pattern, index) => pattern === patterns[index])
+    ) {
+      return cached.matcher;
+    }
+
+    const exactKeys = new Set<string>();
+    const testers: Array<(key: string) => boolean> = [];
+
+    for (const pattern of patterns) {
+      if (typeof pattern === 'function') {
+        testers.push(pattern);
+      } else if (pattern instanceof RegExp) {
+        testers.push(key => {
+          // 带 g/y 标志的正则会记录 lastIndex，每次匹配前重置
+          pattern.lastIndex = 0;
+          return pattern.test(key);
+        });
+      } else if (/[*?]/.test(pattern)) {
+        const regexp = Utils.globToRegExp(pattern);
+        testers.push(key => regexp.test(key));
+      } else {
+        exactKeys.add(pattern);
+      }
+    }
+
+    const matcher = (key: string): boolean =>
+      exactKeys.has(key) || testers.some(test => test(key));
+
+    Utils.keyMatcherCache.set(patterns, { patterns: [...patterns], matcher });
+    return matcher;
+  }
+
+  /**
+   * 已编译的键匹配器缓存
+   */
+  private static keyMatcherCache = new WeakMap<KeyPattern[], {
+    patterns: KeyPattern[];
+    matcher: (key: string) => boolean;
+  }>();
+
+  /**
+   * 将通配符转换为正则：* 匹配任意字符，? 匹配单个字符
+   */
+  private static globToRegExp(glob: string): RegExp {
+    const source = glob
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * 检查是否是存储配额超限错误
+   */
+  static isQuotaExceededError(error: any): boolean {
+    return error && (
+      error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+      error.code === 22 ||
+      error.code === 1014 ||
+      // 检查错误消息中的关键词
+      (error.message && (
+        error.message.toLowerCase().includes('quota') ||
+        error.message.toLowerCase().includes('storage') ||
+        error.message.toLowerCase().includes('exceeded') ||
+        error.message.toLowerCase().includes('full')
+      ))
+    );
   }
 
   /**
    * 估算数据大小（字节）
    */
   static estimateDataSize(value: string): number {
-    // 使用Blob来准确估算字符串的字节大小
-    try {
-      return new Blob([value]).size;
-    } catch {
-      // 降级到简单估算：UTF-8字符平均2字节
-      return value.length * 2;
-    }
+    return Utils.getStringByteSize(value);
   }
 
   /**
@@ -473,12 +1047,16 @@ export class Utils {
    */
   static checkBrowserSupport(): {
     localStorage: boolean;
+    sessionStorage: boolean;
     indexedDB: boolean;
     proxy: boolean;
   } {
+    const hasWindow = typeof window !== 'undefined';
+
     return {
-      localStorage: typeof Storage !== 'undefined' && !!window.localStorage,
-      indexedDB: typeof window !== 'undefined' && !!window.indexedDB,
+      localStorage: hasWindow && typeof Storage !== 'undefined' && !!window.localStorage,
+      sessionStorage: hasWindow && typeof Storage !== 'undefined' && !!window.sessionStorage,
+      indexedDB: hasWindow && !!window.indexedDB,
       proxy: typeof Proxy !== 'undefined'
     };
   }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { KeyPattern } from '../interfaces';
+import { Utils } from './index';
+
+describe('key patterns', () => {
+  it('matches plain strings exactly', () => {
+    expect(Utils.matchesKeyPattern('temp', ['temp'])).toBe(true);
+    expect(Utils.matchesKeyPattern('temp_list', ['temp'])).toBe(false);
+  });
+
+  it('matches globs, regular expressions and predicates', () => {
+    const patterns: KeyPattern[] = ['cache_*', 'draft_?', /^session:/g, key => key.endsWith('.tmp')];
+
+    expect(Utils.matchesKeyPattern('cache_list', patterns)).toBe(true);
+    expect(Utils.matchesKeyPattern('draft_1', patterns)).toBe(true);
+    expect(Utils.matchesKeyPattern('draft_12', patterns)).toBe(false);
+    // 带 g 标志的正则连续匹配结果一致
+    expect(Utils.matchesKeyPattern('session:a', patterns)).toBe(true);
+    expect(Utils.matchesKeyPattern('session:b', patterns)).toBe(true);
+    expect(Utils.matchesKeyPattern('upload.tmp', patterns)).toBe(true);
+    expect(Utils.matchesKeyPattern('user_profile', patterns)).toBe(false);
+  });
+
+  it('escapes regular expression characters in globs', () => {
+    expect(Utils.matchesKeyPattern('a.b', ['a.*'])).toBe(true);
+    expect(Utils.matchesKeyPattern('axb', ['a.b'])).toBe(false);
+  });
+
+  it('recompiles when a pattern is replaced in place', () => {
+    const patterns: KeyPattern[] = ['temp_*'];
+    expect(Utils.matchesKeyPattern('temp_1', patterns)).toBe(true);
+
+    patterns[0] = 'cache_*';
+    expect(Utils.matchesKeyPattern('temp_1', patterns)).toBe(false);
+    expect(Utils.matchesKeyPattern('cache_1', patterns)).toBe(true);
+
+    patterns.push('temp_*');
+    expect(Utils.matchesKeyPattern('temp_1', patterns)).toBe(true);
+  });
+});
\ No newline at end of file
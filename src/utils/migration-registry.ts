@@ -0,0 +1,84 @@
+import { IMetadataMigration } from '../interfaces';
+
+/**
+ * 元数据迁移注册表
+ * 按版本号登记升级（up）和降级（down）步骤，加载旧数据时逐步升级到目标版本，
+ * 回滚到旧版SDK前可以逐步降级
+ */
+export class MigrationRegistry<T = any> {
+  private migrations: Map<number, IMetadataMigration<T>> = new Map();
+  private getVersion: (data: T) => number;
+
+  /**
+   * @param getVersion 读取数据的版本号
+   */
+  constructor(getVersion: (data: T) => number) {
+    this.getVersion = getVersion;
+  }
+
+  /**
+   * 登记一个迁移步骤，每个起始版本只能登记一次
+   */
+  register(migration: IMetadataMigration<T>): this {
+    if (migration.to <= migration.from) {
+      throw new Error(`Invalid migration v${migration.from} -> v${migration.to}`);
+    }
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`Migration from v${migration.from} is already registered`);
+    }
+
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  /**
+   * 获取已登记的所有版本，从旧到新
+   */
+  getVersions(): number[] {
+    const versions = new Set<number>();
+    for (const migration of this.migrations.values()) {
+      versions.add(migration.from);
+      versions.add(migration.to);
+    }
+    return Array.from(versions).sort((a, b) => a - b);
+  }
+
+  /**
+   * 获取最新版本
+   */
+  getLatestVersion(): number {
+    const versions = this.getVersions();
+    return versions.length > 0 ? versions[versions.length - 1] : 0;
+  }
+
+  /**
+   * 把数据迁移到目标版本，默认为最新版本
+   * 缺少某一步或该步不支持降级时抛出错误
+   */
+  migrate(data: T, targetVersion: number = this.getLatestVersion()): T {
+    let version = this.getVersion(data);
+    let result = data;
+
+    while (version < targetVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration || migration.to > targetVersion) {
+        throw new Error(`No migration from v${version} to v${targetVersion}`);
+      }
+
+      result = migration.up(result);
+      version = migration.to;
+    }
+
+    while (version > targetVersion) {
+      const migration = Array.from(this.migrations.values()).find(m => m.to === version);
+      if (!migration || !migration.down || migration.from < targetVersion) {
+        throw new Error(`Cannot downgrade from v${version} to v${targetVersion}`);
+      }
+
+      result = migration.down(result);
+      version = migration.from;
+    }
+
+    return result;
+  }
+}
\ No newline at end of file